@@ -1,7 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import type { GoogleCalendarClient } from '@/lib/google-api';
-import { googleApiClient, type CalendarListEntry } from '@/lib/google-api';
+import {
+  googleApiClient,
+  RequestAbortedError,
+  type CalendarListEntry,
+} from '@/lib/google-api';
 
 interface UseGoogleCalendarsResult {
   calendars: CalendarListEntry[];
@@ -17,7 +21,7 @@ interface UseGoogleCalendarsResult {
  * Uses the ClientSideAPIClient architecture with self-throttling
  */
 export function useGoogleCalendars(): UseGoogleCalendarsResult {
-  const { accessToken } = useAuth();
+  const { accessToken, user } = useAuth();
   const [calendars, setCalendars] = useState<CalendarListEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,11 +32,17 @@ export function useGoogleCalendars(): UseGoogleCalendarsResult {
   // Update client when token changes
   useEffect(() => {
     if (accessToken) {
-      clientRef.current = googleApiClient('calendar', { accessToken });
+      clientRef.current = googleApiClient('calendar', {
+        accessToken,
+        userKey: user?.uid,
+      });
     } else {
       clientRef.current = null;
     }
-  }, [accessToken]);
+  }, [accessToken, user?.uid]);
+
+  // Cancel in-flight requests when a new fetch starts or the hook unmounts
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchCalendars = useCallback(async () => {
     if (!accessToken || !clientRef.current) {
@@ -40,19 +50,31 @@ export function useGoogleCalendars(): UseGoogleCalendarsResult {
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      const data = await clientRef.current.listCalendars(25);
+      const data = await clientRef.current.listCalendars(25, {
+        signal: controller.signal,
+        priority: 'interactive',
+      });
       setCalendars(data);
     } catch (err) {
+      if (err instanceof RequestAbortedError) {
+        return;
+      }
       const message =
         err instanceof Error ? err.message : 'Failed to fetch calendars';
       setError(message);
       console.error('Error fetching Google Calendars:', err);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
   }, [accessToken]);
 
@@ -60,6 +82,9 @@ export function useGoogleCalendars(): UseGoogleCalendarsResult {
     if (accessToken) {
       void fetchCalendars();
     }
+    return () => {
+      abortRef.current?.abort();
+    };
   }, [accessToken, fetchCalendars]);
 
   return { calendars, loading, error, refetch: fetchCalendars };
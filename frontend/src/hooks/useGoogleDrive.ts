@@ -1,7 +1,16 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import type { GoogleDriveClient } from '@/lib/google-api';
-import { googleApiClient, type DriveFile } from '@/lib/google-api';
+import {
+  DriveChangeSync,
+  GOOGLE_MIME_TYPES,
+  googleApiClient,
+  RequestAbortedError,
+  type DriveChangeSet,
+  type DriveFile,
+} from '@/lib/google-api';
+
+const PAGE_SIZE = 25;
 
 interface UseGoogleDriveResult {
   files: DriveFile[];
@@ -15,25 +24,42 @@ interface UseGoogleDriveResult {
  * Excludes spreadsheets (which have their own panel)
  * Requires the user to have granted drive.readonly scope
  *
+ * The first fetch lists the most recent files; refetches apply the Drive
+ * change log to that list instead of listing again.
+ *
  * Uses the ClientSideAPIClient architecture with self-throttling
  */
 export function useGoogleDrive(): UseGoogleDriveResult {
-  const { accessToken } = useAuth();
+  const { accessToken, user } = useAuth();
   const [files, setFiles] = useState<DriveFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Keep a stable reference to the client
   const clientRef = useRef<GoogleDriveClient | null>(null);
+  const syncRef = useRef<DriveChangeSync | null>(null);
+  // Whether `files` holds a full listing that changes can be applied to
+  const listedRef = useRef(false);
 
   // Update client when token changes
   useEffect(() => {
     if (accessToken) {
-      clientRef.current = googleApiClient('drive', { accessToken });
+      clientRef.current = googleApiClient('drive', {
+        accessToken,
+        userKey: user?.uid,
+      });
+      syncRef.current = user?.uid
+        ? new DriveChangeSync(clientRef.current, { userKey: user.uid })
+        : null;
     } else {
       clientRef.current = null;
+      syncRef.current = null;
     }
-  }, [accessToken]);
+    listedRef.current = false;
+  }, [accessToken, user?.uid]);
+
+  // Cancel in-flight requests when a new fetch starts or the hook unmounts
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchFiles = useCallback(async () => {
     if (!accessToken || !clientRef.current) {
@@ -41,24 +67,50 @@ export function useGoogleDrive(): UseGoogleDriveResult {
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     setError(null);
 
+    // The panel is on screen, so serve ahead of background work
+    const requestOptions = {
+      signal: controller.signal,
+      priority: 'interactive' as const,
+    };
+
     try {
+      // Sync before listing so changes made during the listing aren't lost
+      const changes = await syncRef.current?.sync(requestOptions);
+      if (changes && !changes.reset && listedRef.current) {
+        setFiles((current) => applyChanges(current, changes));
+        return;
+      }
+
       // Exclude spreadsheets (they have their own panel) and trashed files
-      const data = await clientRef.current.listFiles({
-        q: "mimeType!='application/vnd.google-apps.spreadsheet' and trashed=false",
-        orderBy: 'modifiedTime desc',
-        pageSize: 25,
-      });
+      const data = await clientRef.current.listFiles(
+        {
+          q: `mimeType!='${GOOGLE_MIME_TYPES.SPREADSHEET}' and trashed=false`,
+          orderBy: 'modifiedTime desc',
+          pageSize: PAGE_SIZE,
+        },
+        requestOptions
+      );
       setFiles(data.files);
+      listedRef.current = true;
     } catch (err) {
+      if (err instanceof RequestAbortedError) {
+        return;
+      }
       const message =
         err instanceof Error ? err.message : 'Failed to fetch drive files';
       setError(message);
       console.error('Error fetching Google Drive files:', err);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
   }, [accessToken]);
 
@@ -66,7 +118,33 @@ export function useGoogleDrive(): UseGoogleDriveResult {
     if (accessToken) {
       void fetchFiles();
     }
+    return () => {
+      abortRef.current?.abort();
+    };
   }, [accessToken, fetchFiles]);
 
   return { files, loading, error, refetch: fetchFiles };
 }
+
+/**
+ * Apply a change set to the most recent files, keeping the panel's
+ * filter and order
+ */
+function applyChanges(
+  files: DriveFile[],
+  changes: DriveChangeSet
+): DriveFile[] {
+  const changed = [...changes.added, ...changes.modified];
+  const dropped = new Set([
+    ...changes.removed,
+    ...changes.trashed.map((file) => file.id),
+    ...changed.map((file) => file.id),
+  ]);
+  const shown = changed.filter(
+    (file) => file.mimeType !== GOOGLE_MIME_TYPES.SPREADSHEET
+  );
+
+  return [...files.filter((file) => !dropped.has(file.id)), ...shown]
+    .sort((a, b) => (b.modifiedTime ?? '').localeCompare(a.modifiedTime ?? ''))
+    .slice(0, PAGE_SIZE);
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import type { GoogleSheetsClient } from '@/lib/google-api';
-import { googleApiClient, type DriveFile } from '@/lib/google-api';
+import {
+  googleApiClient,
+  RequestAbortedError,
+  type DriveFile,
+} from '@/lib/google-api';
 
 interface UseGoogleSheetsResult {
   sheets: DriveFile[];
@@ -17,7 +21,7 @@ interface UseGoogleSheetsResult {
  * Uses the ClientSideAPIClient architecture with self-throttling
  */
 export function useGoogleSheets(): UseGoogleSheetsResult {
-  const { accessToken } = useAuth();
+  const { accessToken, user } = useAuth();
   const [sheets, setSheets] = useState<DriveFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,11 +32,18 @@ export function useGoogleSheets(): UseGoogleSheetsResult {
   // Update client when token changes
   useEffect(() => {
     if (accessToken) {
-      clientRef.current = googleApiClient('sheets', { accessToken });
+      clientRef.current = googleApiClient('sheets', {
+        accessToken,
+        // Share rate limits with the other hooks and tabs for this user
+        userKey: user?.uid,
+      });
     } else {
       clientRef.current = null;
     }
-  }, [accessToken]);
+  }, [accessToken, user?.uid]);
+
+  // Cancel in-flight requests when a new fetch starts or the hook unmounts
+  const abortRef = useRef<AbortController | null>(null);
 
   const fetchSheets = useCallback(async () => {
     if (!accessToken || !clientRef.current) {
@@ -40,19 +51,31 @@ export function useGoogleSheets(): UseGoogleSheetsResult {
       return;
     }
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      const data = await clientRef.current.listSpreadsheets(25);
+      const data = await clientRef.current.listSpreadsheets(25, {
+        signal: controller.signal,
+        priority: 'interactive',
+      });
       setSheets(data);
     } catch (err) {
+      if (err instanceof RequestAbortedError) {
+        return;
+      }
       const message =
         err instanceof Error ? err.message : 'Failed to fetch spreadsheets';
       setError(message);
       console.error('Error fetching Google Sheets:', err);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
   }, [accessToken]);
 
@@ -60,6 +83,9 @@ export function useGoogleSheets(): UseGoogleSheetsResult {
     if (accessToken) {
       void fetchSheets();
     }
+    return () => {
+      abortRef.current?.abort();
+    };
   }, [accessToken, fetchSheets]);
 
   return { sheets, loading, error, refetch: fetchSheets };
@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { MutationQueue, MutationQueueState } from '@/lib/google-api';
+
+interface UseMutationQueueResult extends MutationQueueState {
+  replay: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook exposing the writes waiting in an offline mutation queue
+ *
+ * Re-renders whenever a write is queued, sent or rejected, so components
+ * can show pending changes and let the user retry or drop failed ones.
+ */
+export function useMutationQueue(queue: MutationQueue): UseMutationQueueResult {
+  const state = useSyncExternalStore(
+    useCallback((listener: () => void) => queue.subscribe(listener), [queue]),
+    () => queue.getState()
+  );
+
+  const replay = useCallback(() => queue.replay(), [queue]);
+  const retry = useCallback((id: string) => queue.retry(id), [queue]);
+  const discard = useCallback((id: string) => queue.discard(id), [queue]);
+
+  return { ...state, replay, retry, discard };
+}
@@ -0,0 +1,115 @@
+/**
+ * Cancellation Helpers
+ *
+ * Utilities for combining caller-provided AbortSignals with per-call
+ * timeouts, and for sleeping in a way that cancellation can interrupt.
+ */
+
+import { systemClock, type Clock } from './clock';
+import {
+  GoogleApiError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  type RequestOptions,
+} from './types';
+
+/**
+ * Combined signal for a single call
+ */
+export interface RequestSignal {
+  /** Signal that aborts on caller cancellation or timeout */
+  signal?: AbortSignal;
+  /** Release the timer and listeners (call when the request settles) */
+  cleanup: () => void;
+}
+
+/**
+ * Combine a caller signal and a timeout into a single signal
+ *
+ * The combined signal's reason is a RequestAbortedError or
+ * RequestTimeoutError, so it can be thrown as-is.
+ */
+export function createRequestSignal(
+  options: RequestOptions,
+  clock: Clock = systemClock
+): RequestSignal {
+  const { signal, timeoutMs } = options;
+  if (!signal && timeoutMs === undefined) {
+    return { signal: undefined, cleanup: () => undefined };
+  }
+
+  const controller = new AbortController();
+  // Keep the caller's reason, e.g. the timeout of an enclosing operation
+  const onAbort = () => {
+    controller.abort(signal ? toAbortError(signal) : new RequestAbortedError());
+  };
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer =
+    timeoutMs !== undefined
+      ? clock.setTimeout(() => {
+          controller.abort(new RequestTimeoutError(timeoutMs));
+        }, timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      if (timer !== undefined) clock.clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Convert an aborted signal into the error that should be thrown
+ */
+export function toAbortError(signal: AbortSignal): GoogleApiError {
+  const reason: unknown = signal.reason;
+  return reason instanceof GoogleApiError ? reason : new RequestAbortedError();
+}
+
+/**
+ * Throw if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
+/**
+ * Sleep for the given duration, rejecting early if the signal aborts
+ */
+export function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  clock: Clock = systemClock
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!signal) {
+      clock.setTimeout(resolve, ms);
+      return;
+    }
+    if (signal.aborted) {
+      reject(toAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(toAbortError(signal));
+    };
+    const timer = clock.setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
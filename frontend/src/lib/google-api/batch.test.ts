@@ -0,0 +1,208 @@
+/**
+ * Batch Request Tests
+ *
+ * Tests for multipart/mixed body building and parsing, and for batching
+ * sub-requests through a real client with an injected fetch.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildBatchBody, parseBatchResponse, type BatchItem } from './batch';
+import { GoogleCalendarClient } from './calendar';
+import { ManualClock } from './clock';
+import { GoogleSheetsClient } from './sheets';
+import { NotFoundError, RateLimitError } from './types';
+
+function item(method: string, url: string, body?: string): BatchItem {
+  return {
+    method,
+    url,
+    headers: {},
+    body,
+    resolve: vi.fn(),
+    reject: vi.fn(),
+  };
+}
+
+/**
+ * Build a multipart/mixed batch response from [status, body] pairs
+ */
+function batchResponse(
+  parts: [status: number, body: unknown][],
+  boundary = 'batch_response'
+): Response {
+  const text = parts
+    .map(([status, body], index) =>
+      [
+        `--${boundary}`,
+        'Content-Type: application/http',
+        `Content-ID: <response-item-${String(index)}>`,
+        '',
+        `HTTP/1.1 ${String(status)} Status`,
+        'Content-Type: application/json; charset=UTF-8',
+        '',
+        JSON.stringify(body),
+      ].join('\r\n')
+    )
+    .join('\r\n');
+
+  return new Response(`${text}\r\n--${boundary}--`, {
+    status: 200,
+    headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+  });
+}
+
+describe('buildBatchBody', () => {
+  it('should encode each item as an application/http part', () => {
+    const body = buildBatchBody(
+      [
+        item('GET', 'https://www.googleapis.com/drive/v3/files/a?fields=id'),
+        item('PATCH', 'https://www.googleapis.com/drive/v3/files/b', '{"x":1}'),
+      ],
+      'b1'
+    );
+
+    expect(body).toContain('Content-ID: <item-0>');
+    expect(body).toContain('GET /drive/v3/files/a?fields=id HTTP/1.1');
+    expect(body).toContain('Content-ID: <item-1>');
+    expect(body).toContain(
+      'PATCH /drive/v3/files/b HTTP/1.1\r\nContent-Type: application/json\r\n\r\n{"x":1}'
+    );
+    expect(body.endsWith('--b1--')).toBe(true);
+  });
+});
+
+describe('parseBatchResponse', () => {
+  it('should map parts to item indexes with status and body', async () => {
+    const response = batchResponse([
+      [200, { id: 'a' }],
+      [404, { error: { code: 404 } }],
+    ]);
+
+    const parts = parseBatchResponse(
+      await response.text(),
+      response.headers.get('Content-Type')
+    );
+
+    expect(parts.get(0)?.status).toBe(200);
+    expect(JSON.parse(parts.get(0)?.body ?? '')).toEqual({ id: 'a' });
+    expect(parts.get(1)?.status).toBe(404);
+    expect(parts.get(1)?.headers.get('Content-Type')).toContain(
+      'application/json'
+    );
+  });
+
+  it('should return no parts without a boundary', () => {
+    expect(parseBatchResponse('anything', 'application/json').size).toBe(0);
+  });
+});
+
+describe('GoogleApiClient.batch', () => {
+  it('should send queued calls in one request and settle each separately', async () => {
+    const fetchMock = vi.fn<
+      (input: string, init?: RequestInit) => Promise<Response>
+    >(() =>
+      Promise.resolve(
+        batchResponse([
+          [200, { id: 'event-1' }],
+          [404, { error: { code: 404, message: 'Not Found', errors: [] } }],
+        ])
+      )
+    );
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const batch = calendar.batch();
+    const first = batch.client.getEvent('primary', 'event-1');
+    const second = batch.client.getEvent('primary', 'missing');
+    expect(batch.size).toBe(2);
+
+    await batch.execute();
+
+    await expect(first).resolves.toEqual({ id: 'event-1' });
+    await expect(second).rejects.toBeInstanceOf(NotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://www.googleapis.com/batch/calendar/v3');
+    expect(init?.method).toBe('POST');
+    expect(init?.body).toContain(
+      'GET /calendar/v3/calendars/primary/events/event-1 HTTP/1.1'
+    );
+  });
+
+  it('should surface rate-limited parts as RateLimitError', async () => {
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      fetch: () =>
+        Promise.resolve(
+          batchResponse([
+            [
+              403,
+              {
+                error: {
+                  code: 403,
+                  message: 'Rate limit',
+                  errors: [{ reason: 'rateLimitExceeded' }],
+                },
+              },
+            ],
+          ])
+        ),
+    });
+
+    const batch = calendar.batch();
+    const pending = batch.client.getEvent('primary', 'event-1');
+    await batch.execute();
+
+    await expect(pending).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('should split calls over the API batch size limit', async () => {
+    const fetchMock = vi.fn((_input: string, init?: RequestInit) => {
+      const count = (init?.body as string).split('Content-ID').length - 1;
+      return Promise.resolve(
+        batchResponse(Array.from({ length: count }, () => [200, {}]))
+      );
+    });
+    const clock = new ManualClock();
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      clock,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const batch = calendar.batch();
+    const pending = Array.from({ length: 60 }, (_, i) =>
+      batch.client.getEvent('primary', `event-${String(i)}`)
+    );
+    const executed = batch.execute();
+    // The second chunk waits for rate limit tokens
+    await clock.advance(1000);
+    await executed;
+    await Promise.all(pending);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every call when the batch request fails', async () => {
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      fetch: () => Promise.reject(new TypeError('network down')),
+      retryPolicy: { maxAttempts: 1 },
+    });
+
+    const batch = calendar.batch();
+    const pending = batch.client.getEvent('primary', 'event-1');
+    pending.catch(() => undefined);
+
+    await expect(batch.execute()).rejects.toThrow('network down');
+    await expect(pending).rejects.toThrow('network down');
+  });
+
+  it('should throw for APIs without a batch endpoint', () => {
+    const sheets = new GoogleSheetsClient({ accessToken: 'token' });
+    expect(() => sheets.batch()).toThrow(/not supported/);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Batch Requests
+ *
+ * Support for Google's batch HTTP endpoint, which accepts up to 100 calls
+ * in a single `multipart/mixed` request. Sub-requests are produced by the
+ * regular client methods called on a batch-scoped client; each resolves or
+ * rejects on its own once the batch has been executed.
+ *
+ * @see https://developers.google.com/drive/api/guides/performance#batch-requests
+ * @see https://developers.google.com/calendar/api/guides/batch
+ */
+
+import type { RequestOptions } from './types';
+
+/**
+ * A sub-request queued in a batch
+ */
+export interface BatchItem {
+  /** HTTP method */
+  method: string;
+  /** Fully-qualified request URL */
+  url: string;
+  /** Additional headers for the sub-request */
+  headers: Record<string, string>;
+  /** Serialized request body, if any */
+  body?: string;
+  /** Settle the caller's promise with the parsed response */
+  resolve: (value: unknown) => void;
+  /** Settle the caller's promise with an error */
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Parsed response for a single part of a batch response
+ */
+export interface BatchPartResponse {
+  /** HTTP status of the sub-response */
+  status: number;
+  /** Headers of the sub-response */
+  headers: Headers;
+  /** Raw body of the sub-response */
+  body: string;
+}
+
+/**
+ * Executes queued sub-requests (implemented by the client)
+ */
+export type BatchExecutor = (
+  items: BatchItem[],
+  options: RequestOptions
+) => Promise<void>;
+
+/**
+ * Batch of sub-requests against a single API
+ *
+ * Call methods on `batch.client` to queue sub-requests, then `execute()`
+ * to send them. The promises returned by the client methods settle
+ * individually once the batch response has been parsed.
+ *
+ * @example
+ * const batch = calendar.batch();
+ * const first = batch.client.getEvent('primary', 'event-1');
+ * const second = batch.client.getEvent('primary', 'event-2');
+ * await batch.execute();
+ * const [a, b] = await Promise.allSettled([first, second]);
+ */
+export class GoogleApiBatch<C> {
+  /** Batch-scoped client: its methods queue sub-requests */
+  readonly client: C;
+  private items: BatchItem[] = [];
+  private readonly executor: BatchExecutor;
+
+  constructor(
+    createClient: (batch: GoogleApiBatch<C>) => C,
+    executor: BatchExecutor
+  ) {
+    this.executor = executor;
+    this.client = createClient(this);
+  }
+
+  /**
+   * Number of sub-requests waiting to be sent
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Queue a sub-request (called by the batch-scoped client)
+   */
+  enqueue<T>(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: string
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.items.push({
+        method,
+        url,
+        headers,
+        body,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+  }
+
+  /**
+   * Send all queued sub-requests
+   *
+   * Resolves once every sub-request has settled. Rejects only if the batch
+   * request itself fails, in which case every pending sub-request is
+   * rejected with the same error.
+   *
+   * @param options - Cancellation signal and timeout for the batch call
+   */
+  async execute(options: RequestOptions = {}): Promise<void> {
+    const items = this.items;
+    this.items = [];
+    if (items.length === 0) {
+      return;
+    }
+
+    try {
+      await this.executor(items, options);
+    } catch (error) {
+      for (const item of items) {
+        item.reject(error);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Generate a multipart boundary unlikely to appear in request bodies
+ */
+export function createBoundary(prefix = 'batch'): string {
+  return `${prefix}_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+}
+
+/**
+ * Build a `multipart/mixed` batch request body
+ *
+ * Each part is an `application/http` request identified by a
+ * `Content-ID` of `<item-N>`, where N is the item's index.
+ */
+export function buildBatchBody(items: BatchItem[], boundary: string): string {
+  const parts = items.map((item, index) => {
+    const target = new URL(item.url);
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item-${String(index)}>`,
+      '',
+      `${item.method} ${target.pathname}${target.search} HTTP/1.1`,
+    ];
+
+    for (const [name, value] of Object.entries(item.headers)) {
+      lines.push(`${name}: ${value}`);
+    }
+    if (item.body !== undefined) {
+      lines.push('Content-Type: application/json', '', item.body);
+    } else {
+      lines.push('');
+    }
+
+    return lines.join('\r\n');
+  });
+
+  return `${parts.join('\r\n')}\r\n--${boundary}--`;
+}
+
+/**
+ * Parse a `multipart/mixed` batch response
+ *
+ * @param body - Raw response body
+ * @param contentType - Response Content-Type header (carries the boundary)
+ * @returns Map of item index to its sub-response
+ */
+export function parseBatchResponse(
+  body: string,
+  contentType: string | null
+): Map<number, BatchPartResponse> {
+  const results = new Map<number, BatchPartResponse>();
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType ?? '')?.[1];
+  if (!boundary) {
+    return results;
+  }
+
+  for (const rawPart of body.split(`--${boundary}`)) {
+    const part = rawPart.replace(/^\r?\n/, '');
+    if (part.trim() === '' || part.startsWith('--')) {
+      continue;
+    }
+
+    // Outer MIME headers, then the embedded HTTP response
+    const [outerHeaders, httpMessage] = splitHeaders(part);
+    const contentId = /content-id:\s*<?response-item-(\d+)>?/i.exec(
+      outerHeaders
+    )?.[1];
+    if (contentId === undefined) {
+      continue;
+    }
+
+    const [head, responseBody] = splitHeaders(httpMessage);
+    const [statusLine, ...headerLines] = head.split(/\r?\n/);
+    const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(statusLine)?.[1]);
+
+    const headers = new Headers();
+    for (const line of headerLines) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers.append(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim()
+        );
+      }
+    }
+
+    results.set(Number(contentId), {
+      status,
+      headers,
+      body: responseBody.replace(/\r?\n$/, ''),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Split a MIME entity into its header block and body
+ */
+function splitHeaders(entity: string): [string, string] {
+  const match = /\r?\n\r?\n/.exec(entity);
+  if (!match) {
+    return [entity, ''];
+  }
+  return [
+    entity.slice(0, match.index),
+    entity.slice(match.index + match[0].length),
+  ];
+}
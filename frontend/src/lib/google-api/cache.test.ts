@@ -0,0 +1,101 @@
+/**
+ * Cache Store Tests
+ *
+ * Tests for the memory and Web Storage cache backends.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryCacheStore, WebStorageCacheStore } from './cache';
+
+describe('MemoryCacheStore', () => {
+  it('stores and retrieves entries', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', { data: 1, storedAt: 0 });
+    expect(await store.get('a')).toEqual({ data: 1, storedAt: 0 });
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', { data: 'a', storedAt: 0 });
+    await store.set('b', { data: 'b', storedAt: 0 });
+    // Touch "a" so "b" becomes the oldest
+    await store.get('a');
+    await store.set('c', { data: 'c', storedAt: 0 });
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+  });
+
+  it('deletes and clears entries', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', { data: 1, storedAt: 0 });
+    await store.set('b', { data: 2, storedAt: 0 });
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+
+    await store.clear();
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('deletes entries by key prefix', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('/files/a?fields=id', { data: 1, storedAt: 0 });
+    await store.set('/files/a?fields=name', { data: 2, storedAt: 0 });
+    await store.set('/files/ab', { data: 3, storedAt: 0 });
+
+    await store.deletePrefix('/files/a?');
+
+    expect(await store.get('/files/a?fields=id')).toBeUndefined();
+    expect(await store.get('/files/a?fields=name')).toBeUndefined();
+    expect(await store.get('/files/ab')).toBeDefined();
+  });
+});
+
+describe('WebStorageCacheStore', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('round-trips entries through storage', async () => {
+    const store = new WebStorageCacheStore(sessionStorage);
+    await store.set('k', { data: { x: 1 }, etag: '"e"', storedAt: 5 });
+
+    expect(await store.get('k')).toEqual({
+      data: { x: 1 },
+      etag: '"e"',
+      storedAt: 5,
+    });
+  });
+
+  it('only clears keys in its namespace', async () => {
+    sessionStorage.setItem('unrelated', 'keep');
+    const store = new WebStorageCacheStore(sessionStorage, 'ns:');
+    await store.set('k', { data: 1, storedAt: 0 });
+
+    await store.clear();
+
+    expect(await store.get('k')).toBeUndefined();
+    expect(sessionStorage.getItem('unrelated')).toBe('keep');
+  });
+
+  it('deletes entries by key prefix within its namespace', async () => {
+    sessionStorage.setItem('a:1', 'keep');
+    const store = new WebStorageCacheStore(sessionStorage, 'ns:');
+    await store.set('a:1', { data: 1, storedAt: 0 });
+    await store.set('b:1', { data: 2, storedAt: 0 });
+
+    await store.deletePrefix('a:');
+
+    expect(await store.get('a:1')).toBeUndefined();
+    expect(await store.get('b:1')).toBeDefined();
+    expect(sessionStorage.getItem('a:1')).toBe('keep');
+  });
+
+  it('ignores corrupt entries', async () => {
+    sessionStorage.setItem('ns:bad', '{not json');
+    const store = new WebStorageCacheStore(sessionStorage, 'ns:');
+    expect(await store.get('bad')).toBeUndefined();
+  });
+});
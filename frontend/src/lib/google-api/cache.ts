@@ -0,0 +1,225 @@
+/**
+ * Response Cache
+ *
+ * Optional cache for read-only (GET) API responses. Entries are keyed by
+ * user and request URL (which includes the `fields` selector), served
+ * without a network call while fresh, and revalidated with `If-None-Match`
+ * once stale. A `304 Not Modified` response refreshes the cached entry, and
+ * a successful write to a resource drops its cached responses and those of
+ * the collection listing it.
+ *
+ * The backing store is pluggable: memory, Web Storage (sessionStorage or
+ * localStorage) and IndexedDB implementations are provided.
+ */
+
+import { IndexedDbObjectStore } from './indexed-db';
+
+/**
+ * Cached response entry
+ */
+export interface CacheEntry {
+  /** Parsed response body */
+  data: unknown;
+  /** Entity tag used for revalidation */
+  etag?: string;
+  /** When the entry was stored or last revalidated (ms since epoch) */
+  storedAt: number;
+}
+
+/**
+ * Pluggable storage backend for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Delete every entry whose key starts with `prefix` */
+  deletePrefix(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Cache configuration for a client
+ */
+export interface CacheConfig {
+  /** Storage backend */
+  store: CacheStore;
+  /**
+   * Prefix applied to every key so users never see each other's data.
+   * Defaults to a hash of the access token, which starts a fresh cache
+   * whenever the token changes; pass a stable per-user value to keep
+   * entries across token refreshes.
+   */
+  keyPrefix?: string;
+  /** Per-method TTL overrides in milliseconds, keyed by client method name */
+  ttls?: Partial<Record<string, number>>;
+}
+
+/**
+ * In-memory cache store with a bounded number of entries
+ *
+ * When full, the least recently used entry is evicted.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return Promise.resolve(entry);
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  deletePrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Cache store backed by Web Storage (sessionStorage or localStorage)
+ *
+ * Entries are serialized as JSON under a namespace prefix. Write failures
+ * (e.g. quota exceeded) are ignored, leaving the request uncached.
+ */
+export class WebStorageCacheStore implements CacheStore {
+  private readonly storage: Storage;
+  private readonly namespace: string;
+
+  constructor(storage: Storage, namespace = 'google-api-cache:') {
+    this.storage = storage;
+    this.namespace = namespace;
+  }
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    const raw = this.storage.getItem(this.namespace + key);
+    if (!raw) {
+      return Promise.resolve(undefined);
+    }
+    try {
+      return Promise.resolve(JSON.parse(raw) as CacheEntry);
+    } catch {
+      return Promise.resolve(undefined);
+    }
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      this.storage.setItem(this.namespace + key, JSON.stringify(entry));
+    } catch {
+      // Storage full or unavailable - skip caching this entry
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.storage.removeItem(this.namespace + key);
+    return Promise.resolve();
+  }
+
+  deletePrefix(prefix: string): Promise<void> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.namespace + prefix)) {
+        keys.push(key);
+      }
+    }
+    for (const key of keys) {
+      this.storage.removeItem(key);
+    }
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    return this.deletePrefix('');
+  }
+}
+
+/**
+ * Cache store backed by IndexedDB
+ *
+ * Suitable for large responses (full Drive listings) that would exceed
+ * Web Storage quotas. The database is opened lazily on first use.
+ */
+export class IndexedDbCacheStore implements CacheStore {
+  private readonly db: IndexedDbObjectStore;
+
+  constructor(dbName = 'google-api-cache', storeName = 'responses') {
+    this.db = new IndexedDbObjectStore(dbName, storeName);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const result: unknown = await this.db.run('readonly', (store) =>
+      store.get(key)
+    );
+    return result as CacheEntry | undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.db.run('readwrite', (store) => store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.run('readwrite', (store) => store.delete(key));
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    // Keys starting with the prefix sort between it and prefix + U+FFFF
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    await this.db.run('readwrite', (store) => store.delete(range));
+  }
+
+  async clear(): Promise<void> {
+    await this.db.run('readwrite', (store) => store.clear());
+  }
+}
+
+/**
+ * Cache key prefix for an access token
+ *
+ * A 32-bit FNV-1a hash, so the token itself is never written to storage.
+ */
+export function tokenKeyPrefix(token: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}:`;
+}
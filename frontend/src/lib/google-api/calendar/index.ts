@@ -8,7 +8,17 @@
  */
 
 import { GoogleApiClient } from '../client';
-import type { ClientConfig } from '../types';
+import { HTTP_STATUS } from '../constants';
+import {
+  buildFieldMask,
+  selectSchema,
+  selectSchemaByFields,
+  type FieldMask,
+  type SelectFields,
+} from '../fields';
+import { createIdempotencyKey } from '../offline-queue';
+import type { PaginateOptions, Paginator } from '../paginate';
+import type { ClientConfig, RequestOptions } from '../types';
 import type {
   Calendar,
   CalendarEvent,
@@ -21,6 +31,13 @@ import type {
   NewEvent,
   UpdateEventOptions,
 } from './types';
+import {
+  calendarEventSchema,
+  calendarListResponseSchema,
+  calendarSchema,
+  eventListResponseSchema,
+  eventListSchema,
+} from './schemas';
 
 // Re-export types for convenience
 export * from './types';
@@ -43,52 +60,77 @@ export class GoogleCalendarClient extends GoogleApiClient {
    * List all calendars for the authenticated user
    *
    * @param pageSize - Maximum number of calendars to return
+   * @param requestOptions - Cancellation signal and timeout
    * @returns List of calendars
    */
-  async listCalendars(pageSize = 25): Promise<CalendarListEntry[]> {
+  async listCalendars(
+    pageSize = 25,
+    requestOptions: RequestOptions = {}
+  ): Promise<CalendarListEntry[]> {
     const response = await this.get<CalendarListResponse>(
       '/users/me/calendarList',
       {
         maxResults: String(pageSize),
-      }
+      },
+      this.withCacheTtl('listCalendars', requestOptions),
+      calendarListResponseSchema
     );
 
     return response.items;
   }
 
   /**
-   * List all calendars, handling pagination automatically
+   * Iterate over the user's calendars, fetching pages lazily
    *
-   * @returns All calendars
+   * @param paginateOptions - Start token, item cap, cancellation and timeout
+   * @returns Paginator over calendar list entries
    */
-  async listAllCalendars(): Promise<CalendarListEntry[]> {
-    const allCalendars: CalendarListEntry[] = [];
-    let pageToken: string | undefined;
-
-    do {
+  iterateCalendars(
+    paginateOptions: PaginateOptions = {}
+  ): Paginator<CalendarListEntry> {
+    return this.paginate(async (pageToken, requestOptions) => {
       const params: Record<string, string> = { maxResults: '250' };
       if (pageToken) params.pageToken = pageToken;
 
       const response = await this.get<CalendarListResponse>(
         '/users/me/calendarList',
-        params
+        params,
+        this.withCacheTtl('listCalendars', requestOptions),
+        calendarListResponseSchema
       );
+      return { items: response.items, nextPageToken: response.nextPageToken };
+    }, paginateOptions);
+  }
 
-      allCalendars.push(...response.items);
-      pageToken = response.nextPageToken;
-    } while (pageToken);
-
-    return allCalendars;
+  /**
+   * List all calendars, handling pagination automatically
+   *
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns All calendars
+   */
+  async listAllCalendars(
+    requestOptions: RequestOptions = {}
+  ): Promise<CalendarListEntry[]> {
+    return this.iterateCalendars(requestOptions).toArray();
   }
 
   /**
    * Get a specific calendar
    *
    * @param calendarId - Calendar ID (use 'primary' for the user's primary calendar)
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Calendar metadata
    */
-  async getCalendar(calendarId: string): Promise<Calendar> {
-    return this.get<Calendar>(`/calendars/${encodeURIComponent(calendarId)}`);
+  async getCalendar(
+    calendarId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<Calendar> {
+    return this.get<Calendar>(
+      `/calendars/${encodeURIComponent(calendarId)}`,
+      undefined,
+      this.withCacheTtl('getCalendar', requestOptions),
+      calendarSchema
+    );
   }
 
   /**
@@ -96,6 +138,7 @@ export class GoogleCalendarClient extends GoogleApiClient {
    *
    * @param calendarId - Calendar ID ('primary' for primary calendar)
    * @param options - List options (time range, filtering, etc.)
+   * @param requestOptions - Cancellation signal and timeout
    * @returns List of events with pagination token
    *
    * @example
@@ -110,10 +153,26 @@ export class GoogleCalendarClient extends GoogleApiClient {
    *   singleEvents: true,
    *   orderBy: 'startTime',
    * });
+   *
+   * // Request and type only the fields the UI needs
+   * const { items } = await calendar.listEvents('primary', {
+   *   fields: ['id', 'summary', { start: ['dateTime', 'date'] }],
+   * });
    */
+  listEvents<const M extends FieldMask<CalendarEvent>>(
+    calendarId: string,
+    options: EventListOptions & { fields: M },
+    requestOptions?: RequestOptions
+  ): Promise<EventListResponse<SelectFields<CalendarEvent, M>>>;
+  listEvents(
+    calendarId: string,
+    options?: EventListOptions,
+    requestOptions?: RequestOptions
+  ): Promise<EventListResponse>;
   async listEvents(
     calendarId: string,
-    options: EventListOptions = {}
+    options: EventListOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<EventListResponse> {
     const params: Record<string, string> = {};
 
@@ -135,44 +194,69 @@ export class GoogleCalendarClient extends GoogleApiClient {
     if (options.timeZone) params.timeZone = options.timeZone;
     if (options.syncToken) params.syncToken = options.syncToken;
 
+    let schema = eventListResponseSchema;
+    if (typeof options.fields === 'string') {
+      params.fields = `nextPageToken,nextSyncToken,items(${options.fields})`;
+      schema = eventListSchema(
+        selectSchemaByFields(calendarEventSchema, options.fields)
+      );
+    } else if (options.fields) {
+      params.fields = `nextPageToken,nextSyncToken,items(${buildFieldMask(options.fields)})`;
+      schema = eventListSchema(
+        selectSchema(calendarEventSchema, options.fields)
+      ) as typeof eventListResponseSchema;
+    }
+
     return this.get<EventListResponse>(
       `/calendars/${encodeURIComponent(calendarId)}/events`,
-      params
+      params,
+      this.withCacheTtl('listEvents', requestOptions),
+      schema
     );
   }
 
+  /**
+   * Iterate over events, fetching pages lazily
+   *
+   * @param calendarId - Calendar ID
+   * @param options - List options (excluding pageToken)
+   * @param paginateOptions - Start token, item cap, cancellation and timeout
+   * @returns Paginator over matching events
+   */
+  iterateEvents(
+    calendarId: string,
+    options: Omit<EventListOptions, 'pageToken'> = {},
+    paginateOptions: PaginateOptions = {}
+  ): Paginator<CalendarEvent> {
+    return this.paginate(async (pageToken, requestOptions) => {
+      const response = await this.listEvents(
+        calendarId,
+        { ...options, pageToken, maxResults: options.maxResults ?? 250 },
+        requestOptions
+      );
+      return { items: response.items, nextPageToken: response.nextPageToken };
+    }, paginateOptions);
+  }
+
   /**
    * List all events, handling pagination automatically
    *
    * @param calendarId - Calendar ID
    * @param options - List options (excluding pageToken)
    * @param maxResults - Maximum total events to fetch
+   * @param requestOptions - Cancellation signal and timeout
    * @returns All matching events
    */
   async listAllEvents(
     calendarId: string,
     options: Omit<EventListOptions, 'pageToken'> = {},
-    maxResults?: number
+    maxResults?: number,
+    requestOptions: RequestOptions = {}
   ): Promise<CalendarEvent[]> {
-    const allEvents: CalendarEvent[] = [];
-    let pageToken: string | undefined;
-
-    do {
-      const response = await this.listEvents(calendarId, {
-        ...options,
-        pageToken,
-        maxResults: options.maxResults ?? 250,
-      });
-
-      allEvents.push(...response.items);
-      pageToken = response.nextPageToken;
-
-      if (maxResults && allEvents.length >= maxResults) {
-        return allEvents.slice(0, maxResults);
-      }
-    } while (pageToken);
-
-    return allEvents;
+    return this.iterateEvents(calendarId, options, {
+      ...requestOptions,
+      maxItems: maxResults,
+    }).toArray();
   }
 
   /**
@@ -180,11 +264,19 @@ export class GoogleCalendarClient extends GoogleApiClient {
    *
    * @param calendarId - Calendar ID
    * @param eventId - Event ID
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Event details
    */
-  async getEvent(calendarId: string, eventId: string): Promise<CalendarEvent> {
+  async getEvent(
+    calendarId: string,
+    eventId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<CalendarEvent> {
     return this.get<CalendarEvent>(
-      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`
+      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      undefined,
+      this.withCacheTtl('getEvent', requestOptions),
+      calendarEventSchema
     );
   }
 
@@ -194,7 +286,10 @@ export class GoogleCalendarClient extends GoogleApiClient {
    * @param calendarId - Calendar ID
    * @param event - Event data
    * @param options - Creation options
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Created event
+   * @throws MutationQueuedError if offline and the client has an offline
+   *   queue; the event keeps the ID it was queued with
    *
    * @example
    * const event = await calendar.createEvent('primary', {
@@ -208,7 +303,8 @@ export class GoogleCalendarClient extends GoogleApiClient {
   async createEvent(
     calendarId: string,
     event: NewEvent,
-    options: CreateEventOptions = {}
+    options: CreateEventOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<CalendarEvent> {
     const params: Record<string, string> = {};
     if (options.sendUpdates) params.sendUpdates = options.sendUpdates;
@@ -221,9 +317,22 @@ export class GoogleCalendarClient extends GoogleApiClient {
         ? `?${new URLSearchParams(params).toString()}`
         : '';
 
+    // A client-chosen ID makes the create idempotent: replaying it after it
+    // already went through fails with 409 instead of duplicating the event
+    const body =
+      this.queuesOfflineWrites && !event.id
+        ? { ...event, id: createIdempotencyKey().replaceAll('-', '') }
+        : event;
+
     return this.post<CalendarEvent>(
       `/calendars/${encodeURIComponent(calendarId)}/events${queryString}`,
-      event
+      body,
+      this.withOfflineQueue(
+        this.withCost('createEvent', requestOptions),
+        body.id ? `calendar:createEvent:${calendarId}:${body.id}` : undefined,
+        body.id ? [HTTP_STATUS.CONFLICT] : undefined
+      ),
+      calendarEventSchema
     );
   }
 
@@ -234,13 +343,15 @@ export class GoogleCalendarClient extends GoogleApiClient {
    * @param eventId - Event ID
    * @param event - Partial event data to update
    * @param options - Update options
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Updated event
    */
   async updateEvent(
     calendarId: string,
     eventId: string,
     event: Partial<CalendarEvent>,
-    options: UpdateEventOptions = {}
+    options: UpdateEventOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<CalendarEvent> {
     const params: Record<string, string> = {};
     if (options.sendUpdates) params.sendUpdates = options.sendUpdates;
@@ -255,7 +366,9 @@ export class GoogleCalendarClient extends GoogleApiClient {
 
     return this.patch<CalendarEvent>(
       `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}${queryString}`,
-      event
+      event,
+      this.withOfflineQueue(this.withCost('updateEvent', requestOptions)),
+      calendarEventSchema
     );
   }
 
@@ -265,11 +378,13 @@ export class GoogleCalendarClient extends GoogleApiClient {
    * @param calendarId - Calendar ID
    * @param eventId - Event ID
    * @param options - Deletion options
+   * @param requestOptions - Cancellation signal and timeout
    */
   async deleteEvent(
     calendarId: string,
     eventId: string,
-    options: DeleteEventOptions = {}
+    options: DeleteEventOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<void> {
     const params: Record<string, string> = {};
     if (options.sendUpdates) params.sendUpdates = options.sendUpdates;
@@ -280,7 +395,12 @@ export class GoogleCalendarClient extends GoogleApiClient {
         : '';
 
     await this.delete<undefined>(
-      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}${queryString}`
+      `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}${queryString}`,
+      this.withOfflineQueue(
+        this.withCost('deleteEvent', requestOptions),
+        `calendar:deleteEvent:${calendarId}:${eventId}`,
+        [HTTP_STATUS.NOT_FOUND, HTTP_STATUS.GONE]
+      )
     );
   }
 
@@ -291,13 +411,21 @@ export class GoogleCalendarClient extends GoogleApiClient {
    *
    * @param calendarId - Calendar ID
    * @param text - Natural language text describing the event
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Created event
    */
-  async quickAdd(calendarId: string, text: string): Promise<CalendarEvent> {
+  async quickAdd(
+    calendarId: string,
+    text: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<CalendarEvent> {
     const params = new URLSearchParams({ text });
 
     return this.post<CalendarEvent>(
-      `/calendars/${encodeURIComponent(calendarId)}/events/quickAdd?${params.toString()}`
+      `/calendars/${encodeURIComponent(calendarId)}/events/quickAdd?${params.toString()}`,
+      undefined,
+      this.withCost('quickAdd', requestOptions),
+      calendarEventSchema
     );
   }
 
@@ -308,20 +436,29 @@ export class GoogleCalendarClient extends GoogleApiClient {
    *
    * @param days - Number of days to look ahead (default: 7)
    * @param maxResults - Maximum events to return (default: 10)
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Upcoming events sorted by start time
    */
-  async getUpcomingEvents(days = 7, maxResults = 10): Promise<CalendarEvent[]> {
+  async getUpcomingEvents(
+    days = 7,
+    maxResults = 10,
+    requestOptions: RequestOptions = {}
+  ): Promise<CalendarEvent[]> {
     const now = new Date();
     const future = new Date(now);
     future.setDate(now.getDate() + days);
 
-    const response = await this.listEvents('primary', {
-      timeMin: now.toISOString(),
-      timeMax: future.toISOString(),
-      singleEvents: true,
-      orderBy: 'startTime',
-      maxResults,
-    });
+    const response = await this.listEvents(
+      'primary',
+      {
+        timeMin: now.toISOString(),
+        timeMax: future.toISOString(),
+        singleEvents: true,
+        orderBy: 'startTime',
+        maxResults,
+      },
+      requestOptions
+    );
 
     return response.items;
   }
@@ -0,0 +1,130 @@
+/**
+ * Google Calendar API Response Schemas
+ *
+ * Runtime schemas for the response types in `./types`, used when the
+ * client's validation mode is `warn` or `strict`.
+ */
+
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  type ObjectSchema,
+  type Schema,
+} from '../schema';
+import type {
+  Calendar,
+  CalendarEvent,
+  CalendarListEntry,
+  CalendarListResponse,
+  EventAttendee,
+  EventDateTime,
+  EventListResponse,
+  Reminder,
+} from './types';
+
+export const eventDateTimeSchema = object<EventDateTime>({
+  date: optional(string()),
+  dateTime: optional(string()),
+  timeZone: optional(string()),
+});
+
+export const eventAttendeeSchema = object<EventAttendee>({
+  email: optional(string()),
+  displayName: optional(string()),
+  self: optional(boolean()),
+  organizer: optional(boolean()),
+  resource: optional(boolean()),
+  responseStatus: optional(
+    literal('needsAction', 'declined', 'tentative', 'accepted')
+  ),
+  comment: optional(string()),
+  additionalGuests: optional(number()),
+  optional: optional(boolean()),
+});
+
+export const reminderSchema = object<Reminder>({
+  method: literal('email', 'popup'),
+  minutes: number(),
+});
+
+export const calendarSchema = object<Calendar>({
+  id: string(),
+  summary: string(),
+  description: optional(string()),
+  location: optional(string()),
+  timeZone: optional(string()),
+  backgroundColor: optional(string()),
+  foregroundColor: optional(string()),
+  primary: optional(boolean()),
+  accessRole: literal('freeBusyReader', 'reader', 'writer', 'owner'),
+  hidden: optional(boolean()),
+  selected: optional(boolean()),
+  etag: optional(string()),
+});
+
+export const calendarListEntrySchema = object<CalendarListEntry>({
+  ...calendarSchema.shape,
+  defaultReminders: optional(array(reminderSchema)),
+  colorId: optional(string()),
+});
+
+export const calendarListResponseSchema = object<CalendarListResponse>({
+  items: array(calendarListEntrySchema),
+  nextPageToken: optional(string()),
+  nextSyncToken: optional(string()),
+  etag: optional(string()),
+});
+
+export const calendarEventSchema = object<CalendarEvent>({
+  id: string(),
+  status: optional(literal('confirmed', 'tentative', 'cancelled')),
+  htmlLink: optional(string()),
+  created: optional(string()),
+  updated: optional(string()),
+  summary: optional(string()),
+  description: optional(string()),
+  location: optional(string()),
+  colorId: optional(string()),
+  creator: optional(eventAttendeeSchema),
+  organizer: optional(eventAttendeeSchema),
+  start: eventDateTimeSchema,
+  end: eventDateTimeSchema,
+  endTimeUnspecified: optional(boolean()),
+  recurrence: optional(array(string())),
+  recurringEventId: optional(string()),
+  originalStartTime: optional(eventDateTimeSchema),
+  visibility: optional(literal('default', 'public', 'private', 'confidential')),
+  attendees: optional(array(eventAttendeeSchema)),
+  attendeesOmitted: optional(boolean()),
+  reminders: optional(
+    object<NonNullable<CalendarEvent['reminders']>>({
+      useDefault: boolean(),
+      overrides: optional(array(reminderSchema)),
+    })
+  ),
+  etag: optional(string()),
+  allDay: optional(boolean()),
+});
+
+/**
+ * Schema for an events.list response whose items match the given schema
+ */
+export function eventListSchema<E>(
+  event: Schema<E>
+): ObjectSchema<EventListResponse<E>> {
+  return object<EventListResponse<E>>({
+    items: array(event),
+    nextPageToken: optional(string()),
+    nextSyncToken: optional(string()),
+    summary: optional(string()),
+    description: optional(string()),
+    timeZone: optional(string()),
+  });
+}
+
+export const eventListResponseSchema = eventListSchema(calendarEventSchema);
@@ -5,6 +5,8 @@
  * @see https://developers.google.com/calendar/api/v3/reference
  */
 
+import type { FieldMask } from '../fields';
+
 /**
  * Calendar metadata
  */
@@ -232,13 +234,20 @@ export interface EventListOptions {
   timeZone?: string;
   /** Sync token from previous list */
   syncToken?: string;
+  /**
+   * Fields to include for each event (partial response). A field mask
+   * narrows the returned event type to the selected fields.
+   */
+  fields?: string | FieldMask<CalendarEvent>;
 }
 
 /**
  * Response from events.list
+ *
+ * @typeParam E - Event shape (narrowed when a field mask is used)
  */
-export interface EventListResponse {
-  items: CalendarEvent[];
+export interface EventListResponse<E = CalendarEvent> {
+  items: E[];
   nextPageToken?: string;
   nextSyncToken?: string;
   summary?: string;
@@ -260,6 +269,11 @@ export interface CalendarListResponse {
  * Input for creating a new event
  */
 export interface NewEvent {
+  /**
+   * Client-chosen event ID (5-1024 characters from a-v and 0-9). Generated
+   * when the client has an offline queue, so a replayed create is detected.
+   */
+  id?: string;
   summary: string;
   description?: string;
   location?: string;
@@ -0,0 +1,208 @@
+/**
+ * Circuit Breaker Tests
+ *
+ * Tests for circuit state transitions, endpoint normalization and fast
+ * failure in the client while a circuit is open.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CircuitBreakerRegistry,
+  type CircuitStateChange,
+} from './circuit-breaker';
+import { endpointKey } from './endpoint';
+import { ManualClock } from './clock';
+import { GoogleCalendarClient } from './calendar';
+import { CircuitOpenError, NotFoundError } from './types';
+
+function thresholds(clock: ManualClock) {
+  return new CircuitBreakerRegistry(
+    { failureThreshold: 3, resetTimeoutMs: 10_000 },
+    clock
+  );
+}
+
+describe('endpointKey', () => {
+  it('should replace resource IDs with placeholders', () => {
+    expect(
+      endpointKey(
+        'https://www.googleapis.com/calendar/v3/calendars/primary/events/e1?x=1'
+      )
+    ).toEqual({ api: 'calendar', endpoint: '/calendars/:id/events/:id' });
+  });
+
+  it('should keep fixed method names in place of an ID', () => {
+    const drive = 'https://www.googleapis.com/drive/v3';
+    expect(endpointKey(`${drive}/changes/startPageToken`).endpoint).toBe(
+      '/changes/startPageToken'
+    );
+    expect(endpointKey(`${drive}/files/generateIds`).endpoint).toBe(
+      '/files/generateIds'
+    );
+    expect(
+      endpointKey(
+        'https://www.googleapis.com/calendar/v3/calendars/primary/events/quickAdd'
+      ).endpoint
+    ).toBe('/calendars/:id/events/quickAdd');
+  });
+
+  it('should keep custom method verbs', () => {
+    expect(
+      endpointKey(
+        'https://sheets.googleapis.com/v4/spreadsheets/abc:batchUpdate'
+      )
+    ).toEqual({ api: 'sheets', endpoint: '/spreadsheets/:id:batchUpdate' });
+  });
+
+  it('should keep the full path of unknown URLs', () => {
+    expect(endpointKey('https://www.googleapis.com/batch/drive/v3')).toEqual({
+      endpoint: '/batch/drive/v3',
+    });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and fail fast', () => {
+    const circuit = thresholds(new ManualClock()).get('calendar', '/events');
+
+    for (let i = 0; i < 3; i++) {
+      circuit.admit();
+      circuit.recordFailure();
+    }
+
+    expect(circuit.state).toBe('open');
+    expect(() => {
+      circuit.admit();
+    }).toThrow(CircuitOpenError);
+  });
+
+  it('should reset the failure count on success', () => {
+    const circuit = thresholds(new ManualClock()).get('calendar', '/events');
+
+    circuit.recordFailure();
+    circuit.recordFailure();
+    circuit.recordSuccess();
+    circuit.recordFailure();
+
+    expect(circuit.state).toBe('closed');
+  });
+
+  it('should admit one trial request once half-open', async () => {
+    const clock = new ManualClock();
+    const circuit = thresholds(clock).get('calendar', '/events');
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+
+    await clock.advance(10_000);
+
+    expect(circuit.state).toBe('half-open');
+    circuit.admit();
+    expect(() => {
+      circuit.admit();
+    }).toThrow(CircuitOpenError);
+
+    circuit.recordSuccess();
+    expect(circuit.state).toBe('closed');
+  });
+
+  it('should re-open when the trial request fails', async () => {
+    const clock = new ManualClock();
+    const circuit = thresholds(clock).get('calendar', '/events');
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+    await clock.advance(10_000);
+
+    circuit.admit();
+    circuit.recordFailure();
+
+    expect(circuit.snapshot()).toMatchObject({
+      state: 'open',
+      remainingOpenMs: 10_000,
+    });
+  });
+
+  it('should emit state changes to subscribers', async () => {
+    const clock = new ManualClock();
+    const registry = thresholds(clock);
+    const changes: CircuitStateChange[] = [];
+    const unsubscribe = registry.subscribe((change) => changes.push(change));
+    const circuit = registry.get('calendar', '/events');
+
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+    expect(registry.isOpen('calendar')).toBe(true);
+    await clock.advance(10_000);
+    circuit.admit();
+    circuit.recordSuccess();
+    unsubscribe();
+    for (let i = 0; i < 3; i++) circuit.recordFailure();
+
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(changes[0]).toMatchObject({ api: 'calendar', failures: 3 });
+  });
+});
+
+function errorResponse(status: number): Response {
+  return new Response(
+    JSON.stringify({ error: { code: status, message: 'Backend Error' } }),
+    { status }
+  );
+}
+
+describe('GoogleApiClient circuit breaking', () => {
+  function calendarWith(fetchImpl: typeof fetch) {
+    const clock = new ManualClock();
+    const circuits = new CircuitBreakerRegistry(
+      { failureThreshold: 2, resetTimeoutMs: 10_000 },
+      clock
+    );
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      retryPolicy: { maxAttempts: 1 },
+      circuits,
+      clock,
+      fetch: fetchImpl,
+    });
+    return { calendar, circuits, clock };
+  }
+
+  it('should fail fast without fetching while the circuit is open', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(errorResponse(503)));
+    const { calendar } = calendarWith(fetchMock);
+
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        calendar.getEvent('primary', `e${String(i)}`)
+      ).rejects.toMatchObject({
+        status: 503,
+      });
+    }
+    const error = await calendar
+      .getEvent('primary', 'e3')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).endpoint).toBe(
+      '/calendars/:id/events/:id'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count network errors but not client errors', async () => {
+    const fetchMock = vi
+      .fn<() => Promise<Response>>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(errorResponse(404))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const { calendar, circuits } = calendarWith(fetchMock);
+
+    await expect(calendar.getCalendar('a')).rejects.toThrow('Failed to fetch');
+    await expect(calendar.getCalendar('a')).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    await expect(calendar.getCalendar('a')).rejects.toThrow('Failed to fetch');
+
+    expect(circuits.isOpen('calendar')).toBe(false);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending requests to an endpoint that keeps failing. After
+ * `failureThreshold` consecutive server errors (5xx or network failures)
+ * the circuit opens and requests fail immediately with CircuitOpenError
+ * instead of waiting through retries and backoff. After `resetTimeoutMs`
+ * the circuit goes half-open and lets trial requests through: a success
+ * closes it again, a failure re-opens it.
+ *
+ * Circuits are keyed by API and normalized endpoint. Share one registry
+ * between clients to share circuit state, and subscribe to it to show
+ * outage banners.
+ *
+ * @example
+ * const circuits = new CircuitBreakerRegistry();
+ * circuits.subscribe((change) => {
+ *   if (change.api === 'calendar') setCalendarDown(change.to === 'open');
+ * });
+ * const calendar = googleApiClient('calendar', { accessToken, circuits });
+ *
+ * @see https://martinfowler.com/bliki/CircuitBreaker.html
+ */
+
+import { systemClock, type Clock } from './clock';
+import {
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  type ApiType,
+  type CircuitBreakerConfig,
+} from './constants';
+import { CircuitOpenError } from './types';
+
+/**
+ * State of a circuit
+ *
+ * - `closed`: requests flow normally
+ * - `open`: requests fail fast
+ * - `half-open`: limited trial requests decide whether to close
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Emitted when a circuit changes state
+ */
+export interface CircuitStateChange {
+  api: ApiType;
+  /** Normalized endpoint (e.g. `/calendars/:id/events`) */
+  endpoint: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Time of the change, in milliseconds since the epoch */
+  at: number;
+  /** Consecutive failures recorded when the change happened */
+  failures: number;
+}
+
+/**
+ * Listener for circuit state changes
+ */
+export type CircuitListener = (change: CircuitStateChange) => void;
+
+/**
+ * Snapshot of a single circuit for debugging
+ */
+export interface CircuitSnapshot {
+  api: ApiType;
+  endpoint: string;
+  state: CircuitState;
+  failures: number;
+  /** Milliseconds until an open circuit goes half-open */
+  remainingOpenMs: number;
+}
+
+/**
+ * Circuit for a single API endpoint
+ */
+export class CircuitBreaker {
+  readonly api: ApiType;
+  readonly endpoint: string;
+  private readonly config: CircuitBreakerConfig;
+  private readonly clock: Clock;
+  private readonly notify: (change: CircuitStateChange) => void;
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialsInFlight = 0;
+
+  constructor(
+    api: ApiType,
+    endpoint: string,
+    config: CircuitBreakerConfig,
+    clock: Clock,
+    notify: (change: CircuitStateChange) => void
+  ) {
+    this.api = api;
+    this.endpoint = endpoint;
+    this.config = config;
+    this.clock = clock;
+    this.notify = notify;
+  }
+
+  /**
+   * Current state, moving an open circuit to half-open once its reset
+   * timeout has passed
+   */
+  get state(): CircuitState {
+    if (
+      this.currentState === 'open' &&
+      this.clock.now() - this.openedAt >= this.config.resetTimeoutMs
+    ) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Admit a request, or fail fast while the circuit is open
+   *
+   * Every admitted request must be settled with recordSuccess(),
+   * recordFailure() or recordCancelled().
+   *
+   * @throws CircuitOpenError if the circuit is open, or half-open with all
+   *   trial requests already in flight
+   */
+  admit(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+
+    if (
+      state === 'half-open' &&
+      this.trialsInFlight < this.config.halfOpenMaxRequests
+    ) {
+      this.trialsInFlight += 1;
+      return;
+    }
+
+    throw new CircuitOpenError(
+      this.api,
+      this.endpoint,
+      Math.max(0, this.remainingOpenMs())
+    );
+  }
+
+  /**
+   * Record a response showing the endpoint is up (any non-5xx status)
+   */
+  recordSuccess(): void {
+    this.settleTrial();
+    this.failures = 0;
+    if (this.currentState !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * Record a server error or network failure
+   */
+  recordFailure(): void {
+    this.settleTrial();
+    this.failures += 1;
+    if (
+      this.currentState === 'half-open' ||
+      (this.currentState === 'closed' &&
+        this.failures >= this.config.failureThreshold)
+    ) {
+      this.openedAt = this.clock.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Release an admitted request that ended without an outcome (aborted)
+   */
+  recordCancelled(): void {
+    this.settleTrial();
+  }
+
+  snapshot(): CircuitSnapshot {
+    const state = this.state;
+    return {
+      api: this.api,
+      endpoint: this.endpoint,
+      state,
+      failures: this.failures,
+      remainingOpenMs: state === 'open' ? this.remainingOpenMs() : 0,
+    };
+  }
+
+  private remainingOpenMs(): number {
+    return this.openedAt + this.config.resetTimeoutMs - this.clock.now();
+  }
+
+  private settleTrial(): void {
+    if (this.trialsInFlight > 0) {
+      this.trialsInFlight -= 1;
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.currentState;
+    this.currentState = to;
+    if (to !== 'half-open') {
+      this.trialsInFlight = 0;
+    }
+    this.notify({
+      api: this.api,
+      endpoint: this.endpoint,
+      from,
+      to,
+      at: this.clock.now(),
+      failures: this.failures,
+    });
+  }
+}
+
+/**
+ * Circuits keyed by API and endpoint, with state-change subscriptions
+ */
+export class CircuitBreakerRegistry {
+  private readonly circuits = new Map<string, CircuitBreaker>();
+  private readonly listeners = new Set<CircuitListener>();
+  private readonly config: CircuitBreakerConfig;
+  private readonly clock: Clock;
+
+  /**
+   * @param config - Overrides for the default thresholds
+   * @param clock - Time source (defaults to the system clock)
+   */
+  constructor(
+    config: Partial<CircuitBreakerConfig> = {},
+    clock: Clock = systemClock
+  ) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  /**
+   * Get the circuit for an endpoint, creating it closed on first use
+   */
+  get(api: ApiType, endpoint: string): CircuitBreaker {
+    const key = `${api}:${endpoint}`;
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = new CircuitBreaker(
+        api,
+        endpoint,
+        this.config,
+        this.clock,
+        (change) => {
+          this.emit(change);
+        }
+      );
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Listen for state changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether any circuit for the API is open
+   */
+  isOpen(api: ApiType): boolean {
+    return this.snapshot().some(
+      (circuit) => circuit.api === api && circuit.state === 'open'
+    );
+  }
+
+  /**
+   * Snapshot every circuit for debugging
+   */
+  snapshot(): CircuitSnapshot[] {
+    return [...this.circuits.values()].map((circuit) => circuit.snapshot());
+  }
+
+  private emit(change: CircuitStateChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        // A failing listener must not break the request that changed state
+        console.error('Circuit state listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,671 @@
+/**
+ * Base Client Tests
+ *
+ * Tests for request retry behavior in the base Google API client.
+ * fetch is stubbed with scripted responses; timers are faked so backoff
+ * delays run deterministically.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GoogleApiClient } from './client';
+import type { Middleware } from './middleware';
+import { ManualClock } from './clock';
+import { MemoryCacheStore } from './cache';
+import { GoogleSheetsClient } from './sheets';
+import {
+  GoogleApiError,
+  RateLimitError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  TokenExpiredError,
+  type ClientConfig,
+  type RequestOptions,
+} from './types';
+
+/**
+ * Minimal concrete client exposing the protected request method
+ */
+class TestClient extends GoogleApiClient {
+  constructor(config: ClientConfig) {
+    super(config, 'sheets');
+  }
+
+  call<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>(path, undefined, options);
+  }
+
+  cachedCall<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>(
+      path,
+      undefined,
+      this.withCacheTtl('getSpreadsheet', options)
+    );
+  }
+
+  write<T>(path: string, method: string): Promise<T> {
+    return this.request<T>(path, { method, body: '{}' });
+  }
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function errorResponse(status: number, reason?: string): Response {
+  return jsonResponse(status, {
+    error: {
+      code: status,
+      message: `Error ${String(status)}`,
+      errors: reason ? [{ domain: 'global', reason, message: reason }] : [],
+    },
+  });
+}
+
+/**
+ * Stub fetch with a queue of responses per path
+ */
+function stubFetch(script: Record<string, Response[]>) {
+  const fetchMock = vi.fn((input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const path = new URL(url).pathname.replace('/v4', '');
+    const next = script[path]?.shift();
+    if (!next) {
+      throw new Error(`Unexpected request: ${path}`);
+    }
+    return Promise.resolve(next);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('GoogleApiClient request retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('returns parsed JSON on success', async () => {
+    stubFetch({ '/ok': [jsonResponse(200, { value: 1 })] });
+    const client = new TestClient({ accessToken: 'token' });
+
+    await expect(client.call('/ok')).resolves.toEqual({ value: 1 });
+  });
+
+  it('retries retryable statuses until success', async () => {
+    const fetchMock = stubFetch({
+      '/flaky': [
+        errorResponse(503),
+        errorResponse(429),
+        jsonResponse(200, { done: true }),
+      ],
+    });
+    const client = new TestClient({ accessToken: 'token' });
+
+    const promise = client.call('/flaky');
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual({ done: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('lowers the adaptive rate on 429 responses', async () => {
+    stubFetch({
+      '/limited-once': [errorResponse(429), jsonResponse(200, {})],
+    });
+    const client = new TestClient({
+      accessToken: 'token',
+      rateLimits: { adaptive: {} },
+    });
+
+    const promise = client.call('/limited-once');
+    await vi.runAllTimersAsync();
+    await promise;
+
+    const { adaptive } = client.getRateLimiterStats();
+    expect(adaptive?.rate).toBe(30);
+    expect(adaptive?.history).toEqual([
+      expect.objectContaining({ rate: 30, reason: 'rate-limited' }),
+    ]);
+  });
+
+  it('leaves the rate alone unless adaptive mode is enabled', async () => {
+    stubFetch({
+      '/limited-once': [errorResponse(429), jsonResponse(200, {})],
+    });
+    const client = new TestClient({ accessToken: 'token' });
+
+    const promise = client.call('/limited-once');
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(client.getRateLimiterStats().adaptive).toBeUndefined();
+  });
+
+  it('reports attempt count when retries are exhausted', async () => {
+    stubFetch({
+      '/down': [errorResponse(500), errorResponse(500), errorResponse(500)],
+    });
+    const client = new TestClient({
+      accessToken: 'token',
+      retryPolicy: { maxAttempts: 3 },
+    });
+
+    const promise = client.call('/down').catch((error: unknown) => error);
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(GoogleApiError);
+    expect((error as GoogleApiError).status).toBe(500);
+    expect((error as GoogleApiError).attempts).toBe(3);
+  });
+
+  it('throws RateLimitError when rate limit retries are exhausted', async () => {
+    stubFetch({ '/limited': [errorResponse(429), errorResponse(429)] });
+    const client = new TestClient({
+      accessToken: 'token',
+      retryPolicy: { maxAttempts: 2 },
+    });
+
+    const promise = client.call('/limited').catch((error: unknown) => error);
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).attempts).toBe(2);
+  });
+
+  it('treats usage-limit 403s as retryable rate limits', async () => {
+    stubFetch({
+      '/quota': [
+        errorResponse(403, 'userRateLimitExceeded'),
+        jsonResponse(200, { ok: true }),
+      ],
+    });
+    const client = new TestClient({ accessToken: 'token' });
+
+    const promise = client.call('/quota');
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual({ ok: true });
+  });
+
+  it('waits for the Retry-After delay before retrying', async () => {
+    const fetchMock = stubFetch({
+      '/later': [
+        new Response('{}', { status: 429, headers: { 'Retry-After': '5' } }),
+        jsonResponse(200, { ok: true }),
+      ],
+    });
+    const client = new TestClient({ accessToken: 'token' });
+
+    const promise = client.call('/later');
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // 5s plus up to 10% jitter
+    await vi.advanceTimersByTimeAsync(600);
+    await expect(promise).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports Retry-After on the final RateLimitError', async () => {
+    const limited = () =>
+      new Response('{}', { status: 429, headers: { 'Retry-After': '1' } });
+    stubFetch({ '/limited': [limited(), limited()] });
+    const client = new TestClient({
+      accessToken: 'token',
+      retryPolicy: { maxAttempts: 2 },
+    });
+
+    const promise = client.call('/limited').catch((error: unknown) => error);
+    await vi.runAllTimersAsync();
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(1000);
+  });
+
+  it('does not retry non-retryable statuses', async () => {
+    const fetchMock = stubFetch({ '/bad': [errorResponse(400)] });
+    const client = new TestClient({ accessToken: 'token' });
+
+    const error = await client.call('/bad').catch((e: unknown) => e);
+
+    expect((error as GoogleApiError).status).toBe(400);
+    expect((error as GoogleApiError).attempts).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries statuses carrying a retryable reason', async () => {
+    stubFetch({
+      '/reason': [
+        errorResponse(403, 'backendError'),
+        jsonResponse(200, { ok: true }),
+      ],
+    });
+    const client = new TestClient({
+      accessToken: 'token',
+      retryPolicy: { retryableReasons: ['backendError'] },
+    });
+
+    const promise = client.call('/reason');
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toEqual({ ok: true });
+  });
+
+  it('retries concurrent requests independently', async () => {
+    stubFetch({
+      '/a': [errorResponse(429), jsonResponse(200, { id: 'a' })],
+      '/b': [errorResponse(503), jsonResponse(200, { id: 'b' })],
+      '/c': [jsonResponse(200, { id: 'c' })],
+    });
+    const client = new TestClient({
+      accessToken: 'token',
+      retryPolicy: { maxAttempts: 2 },
+    });
+
+    // With a shared counter, /a and /b would exhaust each other's budget
+    const promises = Promise.all([
+      client.call('/a'),
+      client.call('/b'),
+      client.call('/c'),
+    ]);
+    await vi.runAllTimersAsync();
+
+    await expect(promises).resolves.toEqual([
+      { id: 'a' },
+      { id: 'b' },
+      { id: 'c' },
+    ]);
+  });
+
+  it('refreshes the token once on 401', async () => {
+    const fetchMock = stubFetch({
+      '/auth': [errorResponse(401), jsonResponse(200, { ok: true })],
+    });
+    const onTokenExpired = vi.fn(() => Promise.resolve('fresh-token'));
+    const client = new TestClient({ accessToken: 'stale', onTokenExpired });
+
+    await expect(client.call('/auth')).resolves.toEqual({ ok: true });
+    expect(onTokenExpired).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[1] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect((init.headers as Record<string, string>).Authorization).toBe(
+      'Bearer fresh-token'
+    );
+  });
+
+  it('throws TokenExpiredError when refresh does not help', async () => {
+    stubFetch({ '/auth': [errorResponse(401), errorResponse(401)] });
+    const client = new TestClient({
+      accessToken: 'stale',
+      onTokenExpired: () => Promise.resolve('still-bad'),
+    });
+
+    await expect(client.call('/auth')).rejects.toBeInstanceOf(
+      TokenExpiredError
+    );
+  });
+});
+
+describe('GoogleApiClient cancellation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects without fetching when the signal is already aborted', async () => {
+    const fetchMock = stubFetch({});
+    const client = new TestClient({ accessToken: 'token' });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.call('/ok', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('stops retrying when aborted during backoff', async () => {
+    const fetchMock = stubFetch({
+      '/flaky': [errorResponse(503), jsonResponse(200, {})],
+    });
+    const client = new TestClient({ accessToken: 'token' });
+    const controller = new AbortController();
+
+    const promise = client
+      .call('/flaky', { signal: controller.signal })
+      .catch((error: unknown) => error);
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    expect(await promise).toBeInstanceOf(RequestAbortedError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a request that keeps backing off', async () => {
+    stubFetch({
+      '/slow': [errorResponse(503), errorResponse(503), errorResponse(503)],
+    });
+    const client = new TestClient({ accessToken: 'token', timeoutMs: 1500 });
+
+    const promise = client.call('/slow').catch((error: unknown) => error);
+    await vi.advanceTimersByTimeAsync(1500);
+    const error = await promise;
+
+    expect(error).toBeInstanceOf(RequestTimeoutError);
+    expect((error as RequestTimeoutError).timeoutMs).toBe(1500);
+  });
+});
+
+describe('GoogleApiClient middleware', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes the request and response through middleware', async () => {
+    stubFetch({ '/ok': [jsonResponse(200, { value: 1 })] });
+    const seen: string[] = [];
+    const logging: Middleware = async (request, next) => {
+      seen.push(`${request.method} ${request.apiType}`);
+      const response = await next(request);
+      seen.push(String(response.status));
+      return response;
+    };
+    const client = new TestClient({
+      accessToken: 'token',
+      middleware: [logging],
+    });
+
+    await expect(client.call('/ok')).resolves.toEqual({ value: 1 });
+    expect(seen).toEqual(['GET sheets', '200']);
+  });
+
+  it('runs middleware in order and lets them modify the request', async () => {
+    const fetchMock = stubFetch({ '/ok': [jsonResponse(200, {})] });
+    const order: string[] = [];
+    const first: Middleware = (request, next) => {
+      order.push('first');
+      return next({
+        ...request,
+        headers: { ...request.headers, 'X-Request-Id': 'abc' },
+      });
+    };
+    const second: Middleware = (request, next) => {
+      order.push('second');
+      return next(request);
+    };
+    const client = new TestClient({
+      accessToken: 'token',
+      middleware: [first, second],
+    });
+
+    await client.call('/ok');
+
+    expect(order).toEqual(['first', 'second']);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect((init.headers as Record<string, string>)['X-Request-Id']).toBe(
+      'abc'
+    );
+  });
+
+  it('allows middleware to short-circuit the network', async () => {
+    const fetchMock = stubFetch({});
+    const stub: Middleware = () =>
+      Promise.resolve(jsonResponse(200, { stubbed: true }));
+    const client = new TestClient({ accessToken: 'token', middleware: [stub] });
+
+    await expect(client.call('/anything')).resolves.toEqual({ stubbed: true });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('allows middleware to retry the call', async () => {
+    stubFetch({
+      '/flaky': [errorResponse(400), jsonResponse(200, { ok: true })],
+    });
+    const retryOnce: Middleware = async (request, next) => {
+      const response = await next(request);
+      return response.status === 400 ? next(request) : response;
+    };
+    const client = new TestClient({
+      accessToken: 'token',
+      middleware: [retryOnce],
+    });
+
+    await expect(client.call('/flaky')).resolves.toEqual({ ok: true });
+  });
+});
+
+describe('GoogleApiClient injected fetch and clock', () => {
+  it('uses the injected fetch instead of the global', async () => {
+    const customFetch = vi.fn(() =>
+      Promise.resolve(jsonResponse(200, { via: 'custom' }))
+    );
+    const client = new TestClient({
+      accessToken: 'token',
+      fetch: customFetch as unknown as typeof fetch,
+    });
+
+    await expect(client.call('/ok')).resolves.toEqual({ via: 'custom' });
+    expect(customFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs backoff on the injected clock', async () => {
+    const responses = [errorResponse(503), jsonResponse(200, { ok: true })];
+    const customFetch = vi.fn(() => Promise.resolve(responses.shift()));
+    const clock = new ManualClock();
+    const client = new TestClient({
+      accessToken: 'token',
+      fetch: customFetch as unknown as typeof fetch,
+      clock,
+    });
+
+    const promise = client.call('/flaky');
+    await clock.advance(0);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+
+    // First retry backs off 2s plus up to 10% jitter
+    await clock.advance(2200);
+    await expect(promise).resolves.toEqual({ ok: true });
+    expect(customFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('GoogleApiClient operation costs', () => {
+  function sheetsClient(): GoogleSheetsClient {
+    return new GoogleSheetsClient({
+      accessToken: 'token',
+      clock: new ManualClock(),
+      fetch: (() =>
+        Promise.resolve(jsonResponse(200, {}))) as unknown as typeof fetch,
+    });
+  }
+
+  function tokens(client: GoogleSheetsClient, bucket: string): number {
+    return (
+      client.getRateLimiterStats().buckets.find((b) => b.name === bucket)
+        ?.tokens ?? NaN
+    );
+  }
+
+  it('charges write methods their declared cost to the write buckets', async () => {
+    const client = sheetsClient();
+
+    await client.appendValues('sheet', 'A:B', [['a', 1]]);
+
+    expect(tokens(client, 'user-write')).toBe(8);
+    expect(tokens(client, 'user')).toBe(10);
+  });
+
+  it('charges one read token for reads', async () => {
+    const client = sheetsClient();
+
+    await client.getValues('sheet', 'A1:B2');
+
+    expect(tokens(client, 'user')).toBe(9);
+    expect(tokens(client, 'user-write')).toBe(10);
+  });
+
+  it('lets callers override the cost', async () => {
+    const client = sheetsClient();
+
+    await client.batchUpdateValues(
+      'sheet',
+      { valueInputOption: 'RAW', data: [] },
+      { cost: 1 }
+    );
+
+    expect(tokens(client, 'user-write')).toBe(9);
+  });
+});
+
+describe('GoogleApiClient response cache', () => {
+  function setup(responses: Response[]) {
+    const fetchMock = vi.fn<
+      (input: string, init?: RequestInit) => Promise<Response>
+    >(() => Promise.resolve(responses.shift() as Response));
+    const clock = new ManualClock(1_000_000);
+    const client = new TestClient({
+      accessToken: 'token',
+      fetch: fetchMock as unknown as typeof fetch,
+      clock,
+      cache: { store: new MemoryCacheStore(), ttls: { getSpreadsheet: 1000 } },
+    });
+    return { client, clock, fetchMock };
+  }
+
+  it('serves fresh entries without a network call', async () => {
+    const { client, fetchMock } = setup([jsonResponse(200, { v: 1 })]);
+
+    await client.cachedCall('/sheet');
+    await expect(client.cachedCall('/sheet')).resolves.toEqual({ v: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('revalidates stale entries with If-None-Match and serves 304s', async () => {
+    const { client, clock, fetchMock } = setup([
+      new Response(JSON.stringify({ v: 1 }), {
+        status: 200,
+        headers: { ETag: '"abc"' },
+      }),
+      new Response(null, { status: 304 }),
+    ]);
+
+    await client.cachedCall('/sheet');
+    await clock.advance(1500);
+    await expect(client.cachedCall('/sheet')).resolves.toEqual({ v: 1 });
+
+    const init = fetchMock.mock.calls[1]?.[1];
+    expect((init?.headers as Record<string, string>)['If-None-Match']).toBe(
+      '"abc"'
+    );
+  });
+
+  it('uses the etag from the response body when no header is sent', async () => {
+    const { client, clock, fetchMock } = setup([
+      jsonResponse(200, { etag: '"body-etag"', v: 1 }),
+      jsonResponse(200, { etag: '"next"', v: 2 }),
+    ]);
+
+    await client.cachedCall('/calendar');
+    await clock.advance(1500);
+
+    await expect(client.cachedCall('/calendar')).resolves.toEqual({
+      etag: '"next"',
+      v: 2,
+    });
+    const init = fetchMock.mock.calls[1]?.[1];
+    expect((init?.headers as Record<string, string>)['If-None-Match']).toBe(
+      '"body-etag"'
+    );
+  });
+
+  it('keeps each access token to its own entries', async () => {
+    const { client, fetchMock } = setup([
+      jsonResponse(200, { user: 'a' }),
+      jsonResponse(200, { user: 'b' }),
+    ]);
+
+    await client.cachedCall('/sheet');
+    client.setAccessToken('other-token');
+    await expect(client.cachedCall('/sheet')).resolves.toEqual({ user: 'b' });
+    client.setAccessToken('token');
+    await expect(client.cachedCall('/sheet')).resolves.toEqual({ user: 'a' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops cached responses for a resource after a write to it', async () => {
+    const { client, fetchMock } = setup([
+      jsonResponse(200, { v: 1 }),
+      jsonResponse(200, { v: 1 }),
+      jsonResponse(200, { other: 1 }),
+      new Response(null, { status: 204 }),
+      jsonResponse(200, { v: 2 }),
+    ]);
+
+    await client.cachedCall('/sheet');
+    await client.cachedCall('/sheet?fields=v');
+    await client.cachedCall('/sheets');
+    await client.write('/sheet', 'PATCH');
+
+    await expect(client.cachedCall('/sheet?fields=v')).resolves.toEqual({
+      v: 2,
+    });
+    await expect(client.cachedCall('/sheets')).resolves.toEqual({ other: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('drops cached listings of a collection after a write to one of its items', async () => {
+    const { client, fetchMock } = setup([
+      jsonResponse(200, { items: ['old'] }),
+      jsonResponse(200, {}),
+      jsonResponse(200, { items: ['new'] }),
+    ]);
+
+    await client.cachedCall('/sheets?q=all');
+    await client.write('/sheets/abc', 'PATCH');
+
+    await expect(client.cachedCall('/sheets?q=all')).resolves.toEqual({
+      items: ['new'],
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps cached responses when a write fails', async () => {
+    const { client, fetchMock } = setup([
+      jsonResponse(200, { v: 1 }),
+      errorResponse(400),
+    ]);
+
+    await client.cachedCall('/sheet');
+    await expect(client.write('/sheet', 'DELETE')).rejects.toThrow();
+
+    await expect(client.cachedCall('/sheet')).resolves.toEqual({ v: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache methods without a TTL', async () => {
+    const { client, fetchMock } = setup([
+      jsonResponse(200, { v: 1 }),
+      jsonResponse(200, { v: 2 }),
+    ]);
+
+    await client.call('/values');
+    await expect(client.call('/values')).resolves.toEqual({ v: 2 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
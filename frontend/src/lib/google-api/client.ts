@@ -2,30 +2,136 @@
  * Base Google API Client
  *
  * Abstract base class for all Google API clients. Provides:
- * - Rate limiting with token bucket algorithm
+ * - Rate limiting with token bucket algorithm, shared per user and API
  * - Automatic token refresh on 401
- * - Retry with exponential backoff on 429
+ * - Per-request retry with exponential backoff on 429 and 5xx
+ * - Retry-After support, including usage-limit 403s
+ * - Cancellation and timeouts via AbortSignal
+ * - Pluggable middleware around each HTTP call
+ * - Optional GET response cache with ETag revalidation
+ * - Deduplication of identical in-flight GET requests
+ * - Batching of sub-requests through Google's batch endpoint
+ * - Async-iterator pagination over list endpoints
+ * - Circuit breaking for endpoints that keep failing
+ * - Telemetry events for requests, retries, backoff and cache hits
+ * - Opt-in offline queueing and replay of writes
+ * - Optional runtime validation of responses against schemas
  * - Typed error handling
  *
- * This class is framework-agnostic and can be used in React, Node.js, or CLI.
+ * This class is framework-agnostic and can be used in React, Node.js, Web
+ * Workers, or CLI. Inject `fetch` and `clock` through ClientConfig to run
+ * behind a proxying fetch or under fake time in tests.
  */
 
 import {
   API_ENDPOINTS,
   API_RATE_LIMITS,
+  BATCH_ENDPOINTS,
+  CACHE_TTLS,
+  DEFAULT_RETRY_POLICY,
   HTTP_STATUS,
-  RETRY_CONFIG,
+  MAX_BATCH_SIZE,
+  OPERATION_COSTS,
   type ApiType,
   type RateLimitConfig,
+  type RequestPriority,
+  type RetryPolicy,
 } from './constants';
-import { RateLimiter } from './rate-limiter';
+import { createRequestSignal, toAbortError } from './abort';
+import {
+  buildBatchBody,
+  createBoundary,
+  GoogleApiBatch,
+  parseBatchResponse,
+  type BatchItem,
+  type BatchPartResponse,
+} from './batch';
+import { tokenKeyPrefix, type CacheConfig } from './cache';
+import {
+  CircuitBreakerRegistry,
+  type CircuitSnapshot,
+} from './circuit-breaker';
+import { defaultInFlightRequests } from './dedupe';
+import { endpointKey } from './endpoint';
+import {
+  createIdempotencyKey,
+  isOfflineError,
+  type MutationQueue,
+  type QueuedMutation,
+} from './offline-queue';
+import type { Telemetry } from './telemetry';
+import { Paginator, type PageFetcher, type PaginateOptions } from './paginate';
+import type { Schema, SchemaIssue, ValidationMode } from './schema';
+import { systemClock, type Clock } from './clock';
+import {
+  composeMiddleware,
+  type MiddlewareNext,
+  type MiddlewareRequest,
+} from './middleware';
+import { RateLimiter, type AcquireOptions } from './rate-limiter';
+import {
+  defaultLimiterRegistry,
+  type RateLimiterRegistry,
+} from './limiter-registry';
 import {
   createApiError,
+  GoogleApiError,
+  isRateLimitResponse,
+  MutationQueuedError,
+  parseErrorResponse,
+  parseRetryAfter,
   RateLimitError,
+  ResponseValidationError,
   TokenExpiredError,
   type ClientConfig,
+  type OfflineWriteOptions,
+  type RequestOptions,
 } from './types';
 
+/**
+ * Per-request state reported through telemetry
+ */
+interface RequestTrace {
+  api: ApiType;
+  endpoint: string;
+  method: string;
+  requestId: number;
+  startedAt: number;
+  attempts: number;
+}
+
+/**
+ * How sendRequest handles a request, beyond the caller's RequestOptions
+ */
+interface SendOptions {
+  /**
+   * Apply the request or client timeout (default: true). False when the
+   * caller's signal already carries a deadline for a longer operation
+   * (e.g. every chunk of an upload).
+   */
+  timeout?: boolean;
+  /**
+   * Retry under the retry policy (default: true). False when the caller
+   * recovers from failures itself (e.g. resuming an upload).
+   */
+  retry?: boolean;
+}
+
+/**
+ * Rate limiter charge and attempt limit for one request
+ */
+type RequestCharge = Omit<AcquireOptions, 'signal'> & {
+  cost?: number;
+  maxAttempts?: number;
+};
+
+/**
+ * Filled in with the telemetry ID of the request that produced a response
+ */
+interface TraceRef {
+  requestId?: number;
+}
+
 /**
  * Abstract base class for Google API clients
  */
@@ -34,163 +140,1078 @@ export abstract class GoogleApiClient {
   protected readonly rateLimiter: RateLimiter;
   protected readonly apiType: ApiType;
   protected readonly baseUrl: string;
+  protected readonly retryPolicy: RetryPolicy;
+  protected readonly defaultTimeoutMs?: number;
+  protected readonly clock: Clock;
   private readonly onTokenExpired?: () => Promise<string>;
-  private retryCount = 0;
+  private readonly cache?: CacheConfig;
+  private readonly validation: ValidationMode;
+  private readonly dedupe: boolean;
+  private readonly fetchImpl: typeof fetch;
+  private readonly pipeline: MiddlewareNext;
+  private readonly rateLimitOverrides?: Partial<RateLimitConfig>;
+  private readonly userKey?: string;
+  private readonly limiterRegistry: RateLimiterRegistry;
+  /** Limiters by API, for requests that call another API's endpoints */
+  private readonly limiters = new Map<ApiType, RateLimiter>();
+  private readonly circuits: CircuitBreakerRegistry;
+  private readonly telemetry?: Telemetry;
+  private readonly offlineQueue?: MutationQueue;
+  /** Set on batch-scoped clients: requests are queued instead of sent */
+  private batchScope?: GoogleApiBatch<unknown>;
 
   constructor(config: ClientConfig, apiType: ApiType) {
     this.accessToken = config.accessToken;
     this.apiType = apiType;
     this.baseUrl = API_ENDPOINTS[apiType];
     this.onTokenExpired = config.onTokenExpired;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy };
+    this.defaultTimeoutMs = config.timeoutMs;
+    this.clock = config.clock ?? systemClock;
+    this.cache = config.cache;
+    this.validation = config.validation ?? 'off';
+    this.dedupe = config.dedupe ?? true;
+    // Resolve the global lazily so it is always called unbound
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+    this.pipeline = composeMiddleware(config.middleware ?? [], (request) =>
+      this.send(request)
+    );
 
-    // Create rate limiter with merged config
-    const rateLimitConfig: RateLimitConfig = {
-      ...API_RATE_LIMITS[apiType],
-      ...config.rateLimits,
-    };
-    this.rateLimiter = new RateLimiter(rateLimitConfig);
+    this.rateLimitOverrides = config.rateLimits;
+    this.userKey = config.userKey;
+    this.limiterRegistry = config.limiterRegistry ?? defaultLimiterRegistry;
+    this.rateLimiter = this.limiterFor(apiType);
+    this.circuits =
+      config.circuits ?? new CircuitBreakerRegistry({}, this.clock);
+    this.telemetry = config.telemetry;
+
+    // The newest client for an API replays its queued writes, so a client
+    // created with a fresh token picks up writes an expired one couldn't send
+    this.offlineQueue = config.offlineQueue;
+    this.offlineQueue?.attach(
+      apiType,
+      (mutation) => this.replayMutation(mutation),
+      this.userKey
+    );
+  }
+
+  /**
+   * Rate limiter for an API's quota
+   *
+   * With a userKey the limiter comes from the registry and is shared with
+   * other clients for the same user; otherwise it belongs to this client.
+   * `rateLimits` overrides only apply to this client's own API.
+   */
+  private limiterFor(api: ApiType): RateLimiter {
+    let limiter = this.limiters.get(api);
+    if (!limiter) {
+      const rateLimitConfig: RateLimitConfig = {
+        ...API_RATE_LIMITS[api],
+        ...(api === this.apiType ? this.rateLimitOverrides : undefined),
+      };
+      limiter = this.userKey
+        ? this.limiterRegistry.get(
+            this.userKey,
+            api,
+            rateLimitConfig,
+            this.clock
+          )
+        : new RateLimiter(rateLimitConfig, this.clock);
+      this.limiters.set(api, limiter);
+    }
+    return limiter;
   }
 
   /**
    * Make an authenticated API request
    *
+   * Each call keeps its own attempt state, so concurrent requests retry
+   * independently under the configured retry policy.
+   *
    * @param path - API path (relative to base URL)
-   * @param options - Fetch options
+   * @param init - Fetch options
+   * @param options - Cancellation signal, timeout and cache TTL
+   * @param schema - Schema the response is checked against, per the
+   *   client's validation mode
    * @returns Parsed JSON response
    */
-  protected async request<T>(path: string, options?: RequestInit): Promise<T> {
-    // Acquire rate limit token
-    await this.rateLimiter.acquire();
-
+  protected async request<T>(
+    path: string,
+    init?: RequestInit,
+    options: RequestOptions = {},
+    schema?: Schema<T>
+  ): Promise<T> {
     const url = path.startsWith('http') ? path : `${this.baseUrl}${path}`;
 
-    const headers: HeadersInit = {
-      Authorization: `Bearer ${this.accessToken}`,
-      'Content-Type': 'application/json',
-    };
+    // Batch-scoped clients queue the call instead of sending it
+    if (this.batchScope) {
+      return this.batchScope
+        .enqueue<T>(
+          init?.method ?? 'GET',
+          url,
+          (init?.headers ?? {}) as Record<string, string>,
+          init?.body as string | undefined
+        )
+        .then((data) => this.validateResponse(data, schema, url, init?.method));
+    }
+
+    const { signal, cleanup } = createRequestSignal(
+      {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs ?? this.defaultTimeoutMs,
+      },
+      this.clock
+    );
 
-    // Merge additional headers if provided
-    if (options?.headers) {
-      const additionalHeaders = options.headers as Record<string, string>;
-      Object.assign(headers, additionalHeaders);
+    const traceRef: TraceRef = {};
+    try {
+      const method = init?.method ?? 'GET';
+
+      if (method === 'GET') {
+        const data = this.dedupe
+          ? await defaultInFlightRequests.run(
+              `${this.accessToken} ${url}`,
+              (sharedSignal) =>
+                this.getJson<T>(url, init, sharedSignal, options, traceRef),
+              signal
+            )
+          : await this.getJson<T>(url, init, signal, options, traceRef);
+        return this.validateResponse(
+          data,
+          schema,
+          url,
+          method,
+          traceRef.requestId
+        );
+      }
+
+      if (this.offlineQueue && options.offline && method !== 'GET') {
+        const data = await this.sendOrQueue<T>(
+          this.offlineQueue,
+          options.offline,
+          url,
+          init,
+          signal,
+          options,
+          traceRef
+        );
+        return this.validateResponse(
+          data,
+          schema,
+          url,
+          method,
+          traceRef.requestId
+        );
+      }
+
+      const response = await this.executeWithRetry(
+        url,
+        init,
+        signal,
+        { cost: options.cost, priority: options.priority },
+        traceRef
+      );
+      await this.invalidateCached(url);
+      const data = await readJson<T>(response);
+      return this.validateResponse(
+        data,
+        schema,
+        url,
+        method,
+        traceRef.requestId
+      );
+    } finally {
+      cleanup();
     }
+  }
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
+  /**
+   * Fetch a GET response, from the cache when the call has a cache TTL
+   */
+  private async getJson<T>(
+    url: string,
+    init: RequestInit | undefined,
+    signal: AbortSignal | undefined,
+    options: RequestOptions,
+    traceRef: TraceRef
+  ): Promise<T> {
+    if (this.cache && options.cacheTtlMs !== undefined) {
+      return this.cachedRequest<T>(
+        this.cache,
+        url,
+        init,
+        signal,
+        options.cacheTtlMs,
+        options.priority,
+        traceRef
+      );
+    }
+
+    const response = await this.executeWithRetry(
+      url,
+      init,
+      signal,
+      { cost: options.cost, priority: options.priority },
+      traceRef
+    );
+    return readJson<T>(response);
+  }
+
+  /**
+   * Send a request whose body or response isn't JSON (e.g. an upload)
+   * under the rate limiter and retry policy
+   *
+   * @param url - Absolute request URL
+   * @param init - Fetch options; headers override the JSON Content-Type
+   * @param options - Cancellation signal, timeout, cost and priority
+   * @param send - Whether to apply the timeout and retry policy
+   * @returns The raw successful response
+   */
+  protected async sendRequest(
+    url: string,
+    init: RequestInit,
+    options: RequestOptions = {},
+    send: SendOptions = {}
+  ): Promise<Response> {
+    const { signal, cleanup } = createRequestSignal(
+      {
+        signal: options.signal,
+        timeoutMs:
+          send.timeout === false
+            ? undefined
+            : (options.timeoutMs ?? this.defaultTimeoutMs),
+      },
+      this.clock
+    );
+
+    try {
+      return await this.executeWithRetry(url, init, signal, {
+        cost: options.cost,
+        priority: options.priority,
+        maxAttempts: send.retry === false ? 1 : undefined,
+      });
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Check a response against its schema according to the validation mode
+   *
+   * In warn mode a failed check is reported as a `schema-mismatch`
+   * telemetry event, or logged when the client has no telemetry.
+   *
+   * @param requestId - Telemetry ID of the request that returned `data`
+   * @throws ResponseValidationError in strict mode when the check fails
+   */
+  protected validateResponse<T>(
+    data: T,
+    schema: Schema<T> | undefined,
+    url: string,
+    method = 'GET',
+    requestId?: number
+  ): T {
+    if (!schema || this.validation === 'off') {
+      return data;
+    }
+
+    const issue = schema.check(data, '$');
+    if (!issue) {
+      return data;
+    }
+
+    if (this.validation === 'strict') {
+      throw new ResponseValidationError(
+        issue,
+        this.apiType,
+        JSON.stringify(data)
+      );
+    }
+    this.reportSchemaMismatch(url, method, issue, requestId);
+    return data;
+  }
+
+  private reportSchemaMismatch(
+    url: string,
+    method: string,
+    issue: SchemaIssue,
+    requestId?: number
+  ): void {
+    if (!this.telemetry) {
+      const error = new ResponseValidationError(issue, this.apiType);
+      console.warn(`${error.message} (${url})`);
+      return;
+    }
+    const trace = this.startTrace(url, method, requestId);
+    this.telemetry.emit({
+      ...this.eventFields(trace),
+      type: 'schema-mismatch',
+      ...issue,
     });
+  }
+
+  private emitCacheHit(
+    url: string,
+    revalidated: boolean,
+    traceRef: TraceRef
+  ): void {
+    if (!this.telemetry) return;
+    const trace = this.startTrace(url, 'GET');
+    traceRef.requestId ??= trace.requestId;
+    this.telemetry.emit({
+      ...this.eventFields(trace),
+      type: 'cache-hit',
+      revalidated,
+    });
+  }
+
+  /**
+   * Serve a GET request from the cache, revalidating with the stored ETag
+   * once the entry is older than its TTL
+   */
+  private async cachedRequest<T>(
+    cache: CacheConfig,
+    url: string,
+    init: RequestInit | undefined,
+    signal: AbortSignal | undefined,
+    ttlMs: number,
+    priority: RequestPriority | undefined,
+    traceRef: TraceRef
+  ): Promise<T> {
+    const key = this.cacheKey(cache, url);
+    const entry = await cache.store.get(key).catch(() => undefined);
 
-    // Handle success
-    if (response.ok) {
-      this.rateLimiter.resetBackoff();
-      this.retryCount = 0;
-      return response.json() as Promise<T>;
+    // Fresh entries skip the network and the rate limiter entirely
+    if (entry && this.clock.now() - entry.storedAt < ttlMs) {
+      this.emitCacheHit(url, false, traceRef);
+      return entry.data as T;
     }
 
-    // Handle errors
-    const body = await response.text();
-    return this.handleError(response.status, body, path, options);
+    const headers = entry?.etag
+      ? {
+          ...(init?.headers as Record<string, string> | undefined),
+          'If-None-Match': entry.etag,
+        }
+      : init?.headers;
+    const response = await this.executeWithRetry(
+      url,
+      { ...init, headers },
+      signal,
+      { priority },
+      traceRef
+    );
+
+    if (response.status === HTTP_STATUS.NOT_MODIFIED && entry) {
+      this.emitCacheHit(url, true, traceRef);
+      await cache.store
+        .set(key, { ...entry, storedAt: this.clock.now() })
+        .catch(() => undefined);
+      return entry.data as T;
+    }
+
+    const data = await readJson<T>(response);
+    const etag = response.headers.get('ETag') ?? readEtag(data);
+    await cache.store
+      .set(key, { data, etag, storedAt: this.clock.now() })
+      .catch(() => undefined);
+    return data;
   }
 
   /**
-   * Handle error responses with retry logic
+   * Cache key for a URL, scoped to the current user
    */
-  private async handleError<T>(
-    status: number,
-    body: string,
-    path: string,
-    options?: RequestInit
+  private cacheKey(cache: CacheConfig, url: string): string {
+    return `${cache.keyPrefix ?? tokenKeyPrefix(this.accessToken)}${url}`;
+  }
+
+  /**
+   * Drop cached responses for a resource and the collection that lists it
+   * (e.g. `/files/abc` and `/files`) after a successful write, whatever
+   * their query parameters
+   */
+  private async invalidateCached(url: string): Promise<void> {
+    const cache = this.cache;
+    if (!cache) {
+      return;
+    }
+    const resource = url.split('?')[0];
+    const collection = resource.slice(0, resource.lastIndexOf('/'));
+    await Promise.all(
+      [resource, collection].flatMap((path) => {
+        const key = this.cacheKey(cache, path);
+        return [cache.store.delete(key), cache.store.deletePrefix(`${key}?`)];
+      })
+    ).catch(() => undefined);
+  }
+
+  /**
+   * Send a write, queueing it for replay when offline or when it fails
+   * without reaching the API
+   *
+   * Earlier writes for the API still in the queue are replayed first; if
+   * any remain, the write queues behind them rather than overtaking them.
+   *
+   * @throws MutationQueuedError when the write was queued
+   */
+  private async sendOrQueue<T>(
+    queue: MutationQueue,
+    offline: OfflineWriteOptions,
+    url: string,
+    init: RequestInit | undefined,
+    signal: AbortSignal | undefined,
+    options: RequestOptions,
+    traceRef: TraceRef
   ): Promise<T> {
-    // Token expired - try to refresh
-    if (status === HTTP_STATUS.UNAUTHORIZED) {
-      if (this.onTokenExpired) {
+    const api = endpointKey(url).api ?? this.apiType;
+    const queueWrite = async (): Promise<never> => {
+      const mutation = await queue.enqueue({
+        id: offline.idempotencyKey,
+        api,
+        userKey: this.userKey,
+        method: init?.method ?? 'POST',
+        url,
+        body: init?.body as string | undefined,
+        cost: options.cost,
+        appliedStatuses: offline.appliedStatuses,
+      });
+      throw new MutationQueuedError(mutation.id, this.apiType);
+    };
+
+    if (queue.isOnline() && (await queue.hasPending(api, this.userKey))) {
+      await queue.replay();
+    }
+    if (!queue.isOnline() || (await queue.hasPending(api, this.userKey))) {
+      return queueWrite();
+    }
+
+    let response: Response;
+    try {
+      response = await this.executeWithRetry(
+        url,
+        init,
+        signal,
+        { cost: options.cost, priority: options.priority },
+        traceRef
+      );
+    } catch (error) {
+      if (isOfflineError(error)) {
+        return queueWrite();
+      }
+      throw error;
+    }
+    await this.invalidateCached(url);
+    // The write was applied, so a bad body must not queue it again
+    return readJson<T>(response);
+  }
+
+  /**
+   * Send a queued write on behalf of the offline queue
+   */
+  private async replayMutation(mutation: QueuedMutation): Promise<void> {
+    const response = await this.executeWithRetry(
+      mutation.url,
+      { method: mutation.method, body: mutation.body },
+      undefined,
+      { cost: mutation.cost, priority: 'background' }
+    );
+    await this.invalidateCached(mutation.url);
+    await response.body?.cancel();
+  }
+
+  /**
+   * Let a write be queued when it can't be sent, if the client has an
+   * offline queue
+   *
+   * An `offline` option passed by the caller always wins.
+   *
+   * @param options - Caller's request options
+   * @param idempotencyKey - Key identifying the write (default: random)
+   * @param appliedStatuses - Replay statuses meaning the write was already
+   *   applied
+   */
+  protected withOfflineQueue(
+    options: RequestOptions,
+    idempotencyKey?: string,
+    appliedStatuses?: number[]
+  ): RequestOptions {
+    if (!this.offlineQueue || options.offline) {
+      return options;
+    }
+    return {
+      ...options,
+      offline: {
+        idempotencyKey: idempotencyKey ?? createIdempotencyKey(),
+        appliedStatuses,
+      },
+    };
+  }
+
+  /**
+   * Whether writes from this client can be queued while offline
+   */
+  protected get queuesOfflineWrites(): boolean {
+    return this.offlineQueue !== undefined;
+  }
+
+  /**
+   * Apply the cache TTL configured for a read method
+   *
+   * TTLs come from the client's cache config, falling back to CACHE_TTLS.
+   * A `cacheTtlMs` passed by the caller always wins.
+   *
+   * @param method - Client method name (e.g. 'listFiles')
+   * @param options - Caller's request options
+   */
+  protected withCacheTtl(
+    method: string,
+    options: RequestOptions
+  ): RequestOptions {
+    if (!this.cache || options.cacheTtlMs !== undefined) {
+      return options;
+    }
+
+    const ttlMs = this.cache.ttls?.[method] ?? CACHE_TTLS[this.apiType][method];
+    return ttlMs === undefined ? options : { ...options, cacheTtlMs: ttlMs };
+  }
+
+  /**
+   * Apply the rate limiter cost configured for a method
+   *
+   * A `cost` passed by the caller always wins.
+   *
+   * @param method - Client method name (e.g. 'appendValues')
+   * @param options - Caller's request options
+   */
+  protected withCost(method: string, options: RequestOptions): RequestOptions {
+    const cost = OPERATION_COSTS[this.apiType][method];
+    return options.cost !== undefined || cost === undefined
+      ? options
+      : { ...options, cost };
+  }
+
+  /**
+   * Run a single request through the retry loop, reporting its start and
+   * end to telemetry
+   *
+   * @param charge - Rate limiter tokens charged per attempt (default: 1),
+   *   quota to charge (defaults from the HTTP method), queue priority and
+   *   an attempt limit overriding the retry policy's
+   * @param traceRef - Receives the request's telemetry ID
+   * @returns A successful (2xx) or 304 Not Modified response
+   */
+  private async executeWithRetry(
+    url: string,
+    init: RequestInit | undefined,
+    signal: AbortSignal | undefined,
+    charge: RequestCharge = {},
+    traceRef?: TraceRef
+  ): Promise<Response> {
+    const trace = this.startTrace(url, init?.method ?? 'GET');
+    if (traceRef) traceRef.requestId = trace.requestId;
+    this.telemetry?.emit({ ...this.eventFields(trace), type: 'request-start' });
+
+    try {
+      const response = await this.retryLoop(url, init, signal, charge, trace);
+      this.endTrace(trace, response.status);
+      return response;
+    } catch (error) {
+      this.endTrace(
+        trace,
+        error instanceof GoogleApiError ? error.status : 0,
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Retry a request under the retry policy
+   */
+  private async retryLoop(
+    url: string,
+    init: RequestInit | undefined,
+    signal: AbortSignal | undefined,
+    charge: RequestCharge,
+    trace: RequestTrace
+  ): Promise<Response> {
+    const {
+      cost = 1,
+      operation = !init?.method || init.method === 'GET' ? 'read' : 'write',
+      priority = 'normal',
+      maxAttempts = this.retryPolicy.maxAttempts,
+    } = charge;
+    let attempt = 0;
+    let tokenRefreshed = false;
+    // Charge the quota of the API actually being called (e.g. Drive for
+    // the Sheets client's spreadsheet listing)
+    const rateLimiter = this.limiterFor(trace.api);
+    const circuit = this.circuits.get(trace.api, trace.endpoint);
+
+    for (;;) {
+      attempt += 1;
+      trace.attempts = attempt;
+
+      // Fail fast while the endpoint is down
+      circuit.admit();
+
+      let response: Response;
+      try {
+        // Acquire rate limit tokens
+        const waitStart = this.clock.now();
+        await rateLimiter.acquire(cost, { signal, operation, priority });
+        const waitedMs = this.clock.now() - waitStart;
+        if (waitedMs > 0) {
+          this.telemetry?.emit({
+            ...this.eventFields(trace),
+            type: 'rate-limit-wait',
+            waitedMs,
+            priority,
+          });
+        }
+
+        response = await this.dispatch({
+          url,
+          method: init?.method ?? 'GET',
+          headers: this.buildHeaders(init?.headers),
+          body: init?.body,
+          apiType: this.apiType,
+          signal,
+        });
+      } catch (error) {
+        // Typed errors are cancellations; anything else is a network failure
+        if (error instanceof GoogleApiError) {
+          circuit.recordCancelled();
+        } else {
+          circuit.recordFailure();
+        }
+        throw error;
+      }
+
+      if (response.status >= 500) {
+        circuit.recordFailure();
+      } else {
+        circuit.recordSuccess();
+      }
+
+      // Handle success (308 acknowledges a resumable upload chunk)
+      if (
+        response.ok ||
+        response.status === HTTP_STATUS.NOT_MODIFIED ||
+        response.status === HTTP_STATUS.RESUME_INCOMPLETE
+      ) {
+        rateLimiter.resetBackoff();
+        rateLimiter.recordSuccess();
+        return response;
+      }
+
+      // Handle errors
+      const body = await response.text();
+
+      // Token expired - refresh once per request and try again
+      if (response.status === HTTP_STATUS.UNAUTHORIZED) {
+        if (!this.onTokenExpired || tokenRefreshed) {
+          throw withAttempts(new TokenExpiredError(), attempt);
+        }
         this.accessToken = await this.onTokenExpired();
-        return this.request<T>(path, options);
+        tokenRefreshed = true;
+        this.telemetry?.emit({
+          ...this.eventFields(trace),
+          type: 'retry',
+          attempt,
+          status: response.status,
+        });
+        continue;
       }
-      throw new TokenExpiredError();
+
+      // Quota errors (429, or 403 with a usage-limit reason) honour the
+      // server's Retry-After hint
+      const rateLimited = isRateLimitResponse(response.status, body);
+      const retryAfterMs = rateLimited
+        ? parseRetryAfter(response.headers.get('Retry-After'), this.clock.now())
+        : undefined;
+      if (rateLimited) {
+        // Adaptive limiters slow down to the quota actually enforced
+        rateLimiter.recordRateLimited();
+      }
+
+      if (!this.isRetryable(response.status, body)) {
+        throw withAttempts(
+          createApiError(response.status, body, this.apiType, retryAfterMs),
+          attempt
+        );
+      }
+
+      if (attempt >= maxAttempts) {
+        const error = rateLimited
+          ? new RateLimitError(
+              retryAfterMs,
+              'Max retries exceeded for rate limit',
+              response.status
+            )
+          : createApiError(response.status, body, this.apiType);
+        throw withAttempts(error, attempt);
+      }
+
+      this.telemetry?.emit({
+        ...this.eventFields(trace),
+        type: 'retry',
+        attempt,
+        status: response.status,
+      });
+
+      // Back off based on this request's own attempt count
+      const backoff = rateLimiter.backoff(retryAfterMs, { attempt, signal });
+      this.telemetry?.emit({
+        ...this.eventFields(trace),
+        type: 'backoff',
+        attempt,
+        delayMs: rateLimiter.getRemainingBackoff(),
+      });
+      await backoff;
     }
+  }
+
+  /**
+   * Start tracing a request for telemetry
+   *
+   * @param requestId - ID of an earlier event's request (default: a new one)
+   */
+  private startTrace(
+    url: string,
+    method: string,
+    requestId = this.telemetry?.nextRequestId() ?? 0
+  ): RequestTrace {
+    const { api = this.apiType, endpoint } = endpointKey(url);
+    return {
+      api,
+      endpoint,
+      method,
+      requestId,
+      startedAt: this.clock.now(),
+      attempts: 0,
+    };
+  }
+
+  private endTrace(trace: RequestTrace, status: number, error?: unknown): void {
+    this.telemetry?.emit({
+      ...this.eventFields(trace),
+      type: 'request-end',
+      status,
+      ok: error === undefined,
+      durationMs: this.clock.now() - trace.startedAt,
+      attempts: trace.attempts,
+      error: error instanceof Error ? error.name : undefined,
+    });
+  }
+
+  /**
+   * Fields shared by every telemetry event for a request
+   */
+  private eventFields(trace: RequestTrace) {
+    return {
+      api: trace.api,
+      endpoint: trace.endpoint,
+      method: trace.method,
+      requestId: trace.requestId,
+      at: this.clock.now(),
+    };
+  }
+
+  /**
+   * Create a lazy async iterator over a paginated endpoint
+   *
+   * @param fetchPage - Fetches one page given its token
+   * @param options - Start token, item cap, cancellation and timeout
+   * @returns Paginator yielding items (or pages via `pages()`)
+   */
+  protected paginate<T>(
+    fetchPage: PageFetcher<T>,
+    options: PaginateOptions = {}
+  ): Paginator<T> {
+    return new Paginator(fetchPage, options);
+  }
+
+  /**
+   * Start a batch of sub-requests against this API
+   *
+   * Methods called on `batch.client` are queued rather than sent; call
+   * `batch.execute()` to send them in `multipart/mixed` requests of up to
+   * MAX_BATCH_SIZE calls each.
+   *
+   * Only methods built on `request()` are batched. Exports, downloads and
+   * uploads send their requests straight away, even when called on
+   * `batch.client`. Paginated helpers would queue one page at a time and
+   * wait on `execute()` for each, so call them on the client itself.
+   *
+   * @returns Batch with a batch-scoped client
+   * @throws Error if the API has no batch endpoint (Sheets)
+   *
+   * @example
+   * const batch = drive.batch();
+   * const file = batch.client.getFile('abc');
+   * const permissions = batch.client.listPermissions('abc');
+   * await batch.execute();
+   * console.log(await file, await permissions);
+   */
+  batch(): GoogleApiBatch<this> {
+    const endpoint = BATCH_ENDPOINTS[this.apiType];
+    if (!endpoint) {
+      throw new Error(
+        `Batch requests are not supported by the ${this.apiType} API`
+      );
+    }
+
+    return new GoogleApiBatch<this>(
+      (batch) => {
+        const scoped = Object.create(this) as this;
+        scoped.batchScope = batch;
+        return scoped;
+      },
+      (items, options) => this.executeBatch(endpoint, items, options)
+    );
+  }
+
+  /**
+   * Send queued sub-requests and settle each one from its response part
+   */
+  private async executeBatch(
+    endpoint: string,
+    items: BatchItem[],
+    options: RequestOptions
+  ): Promise<void> {
+    const limit = MAX_BATCH_SIZE[this.apiType] ?? items.length;
+
+    for (let start = 0; start < items.length; start += limit) {
+      const chunk = items.slice(start, start + limit);
+      const boundary = createBoundary();
+      const { signal, cleanup } = createRequestSignal(
+        {
+          signal: options.signal,
+          timeoutMs: options.timeoutMs ?? this.defaultTimeoutMs,
+        },
+        this.clock
+      );
 
-    // Rate limited - backoff and retry
-    if (status === HTTP_STATUS.RATE_LIMITED) {
-      if (this.retryCount >= RETRY_CONFIG.maxRetries) {
-        this.retryCount = 0;
-        throw new RateLimitError(
-          undefined,
-          'Max retries exceeded for rate limit'
+      let parts;
+      try {
+        const response = await this.executeWithRetry(
+          endpoint,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': `multipart/mixed; boundary=${boundary}`,
+            },
+            body: buildBatchBody(chunk, boundary),
+          },
+          signal,
+          {
+            // Each sub-request counts against quota
+            cost: chunk.length,
+            operation: chunk.every((item) => item.method === 'GET')
+              ? 'read'
+              : 'write',
+            priority: options.priority,
+          }
         );
+        parts = parseBatchResponse(
+          await response.text(),
+          response.headers.get('Content-Type')
+        );
+      } finally {
+        cleanup();
       }
 
-      this.retryCount += 1;
-      await this.rateLimiter.backoff();
-      return this.request<T>(path, options);
+      chunk.forEach((item, index) => {
+        this.settleBatchItem(item, parts.get(index));
+      });
+    }
+  }
+
+  /**
+   * Resolve or reject a sub-request from its part of the batch response
+   */
+  private settleBatchItem(
+    item: BatchItem,
+    part: BatchPartResponse | undefined
+  ): void {
+    if (!part) {
+      item.reject(
+        new GoogleApiError(
+          0,
+          `Missing batch response for ${item.method} ${item.url}`,
+          this.apiType
+        )
+      );
+      return;
+    }
+
+    if (part.status >= 200 && part.status < 300) {
+      try {
+        item.resolve(part.body ? JSON.parse(part.body) : undefined);
+      } catch (error) {
+        item.reject(error);
+      }
+      return;
     }
 
-    // Server errors - retry with backoff
-    if (
-      status === HTTP_STATUS.SERVER_ERROR ||
-      status === HTTP_STATUS.SERVICE_UNAVAILABLE
-    ) {
-      if (this.retryCount >= RETRY_CONFIG.maxRetries) {
-        this.retryCount = 0;
-        throw createApiError(status, body, this.apiType);
+    const rateLimited = isRateLimitResponse(part.status, part.body);
+    if (rateLimited) {
+      this.rateLimiter.recordRateLimited();
+    }
+    const retryAfterMs = rateLimited
+      ? parseRetryAfter(part.headers.get('Retry-After'), this.clock.now())
+      : undefined;
+    item.reject(
+      createApiError(part.status, part.body, this.apiType, retryAfterMs)
+    );
+  }
+
+  /**
+   * Send a request through the middleware pipeline
+   *
+   * The end of the pipeline calls fetch, translating aborts into typed
+   * cancellation errors.
+   */
+  protected dispatch(request: MiddlewareRequest): Promise<Response> {
+    return this.pipeline(request);
+  }
+
+  /**
+   * Terminal handler of the middleware pipeline
+   */
+  private async send(request: MiddlewareRequest): Promise<Response> {
+    const { url, method, headers, body, signal } = request;
+    try {
+      return await this.fetchImpl(url, { method, headers, body, signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toAbortError(signal);
       }
+      throw error;
+    }
+  }
 
-      this.retryCount += 1;
-      await this.rateLimiter.backoff();
-      return this.request<T>(path, options);
+  /**
+   * Build request headers, merging any additional headers provided
+   */
+  private buildHeaders(additional?: HeadersInit): Record<string, string> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.accessToken}`,
+      'Content-Type': 'application/json',
+    };
+
+    if (additional) {
+      Object.assign(headers, additional as Record<string, string>);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Check whether a failed response should be retried under the policy
+   */
+  private isRetryable(status: number, body: string): boolean {
+    if (this.retryPolicy.retryableStatuses.includes(status)) {
+      return true;
     }
 
-    // Other errors - don't retry
-    throw createApiError(status, body, this.apiType);
+    const reasons = parseErrorResponse(body)?.error.errors ?? [];
+    return reasons.some(({ reason }) =>
+      this.retryPolicy.retryableReasons.includes(reason)
+    );
   }
 
   /**
    * Make a GET request
    */
-  protected get<T>(path: string, params?: Record<string, string>): Promise<T> {
+  protected get<T>(
+    path: string,
+    params?: Record<string, string>,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<T> {
     let url = path;
     if (params && Object.keys(params).length > 0) {
       const searchParams = new URLSearchParams(params);
       url = `${path}?${searchParams.toString()}`;
     }
-    return this.request<T>(url, { method: 'GET' });
+    return this.request<T>(url, { method: 'GET' }, options, schema);
   }
 
   /**
    * Make a POST request
    */
-  protected post<T>(path: string, data?: unknown): Promise<T> {
-    return this.request<T>(path, {
-      method: 'POST',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  protected post<T>(
+    path: string,
+    data?: unknown,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<T> {
+    return this.request<T>(
+      path,
+      {
+        method: 'POST',
+        body: data ? JSON.stringify(data) : undefined,
+      },
+      options,
+      schema
+    );
   }
 
   /**
    * Make a PUT request
    */
-  protected put<T>(path: string, data?: unknown): Promise<T> {
-    return this.request<T>(path, {
-      method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  protected put<T>(
+    path: string,
+    data?: unknown,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<T> {
+    return this.request<T>(
+      path,
+      {
+        method: 'PUT',
+        body: data ? JSON.stringify(data) : undefined,
+      },
+      options,
+      schema
+    );
   }
 
   /**
    * Make a PATCH request
    */
-  protected patch<T>(path: string, data?: unknown): Promise<T> {
-    return this.request<T>(path, {
-      method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+  protected patch<T>(
+    path: string,
+    data?: unknown,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<T> {
+    return this.request<T>(
+      path,
+      {
+        method: 'PATCH',
+        body: data ? JSON.stringify(data) : undefined,
+      },
+      options,
+      schema
+    );
   }
 
   /**
    * Make a DELETE request
    */
-  protected delete<T>(path: string): Promise<T> {
-    return this.request<T>(path, { method: 'DELETE' });
+  protected delete<T>(path: string, options?: RequestOptions): Promise<T> {
+    return this.request<T>(path, { method: 'DELETE' }, options);
+  }
+
+  /**
+   * Remove all entries from the configured response cache
+   *
+   * Note that the store may be shared with other clients.
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.store.clear();
   }
 
   /**
@@ -206,6 +1227,13 @@ export abstract class GoogleApiClient {
   getRateLimiterStats(): ReturnType<RateLimiter['getStats']> {
     return this.rateLimiter.getStats();
   }
+
+  /**
+   * Get the state of every circuit this client has used, for debugging
+   */
+  getCircuitStates(): CircuitSnapshot[] {
+    return this.circuits.snapshot();
+  }
 }
 
 /**
@@ -228,3 +1256,33 @@ export function buildUrl(
 
   return url.toString();
 }
+
+/**
+ * Record the number of attempts made on an error before throwing it
+ */
+function withAttempts<E extends GoogleApiError>(error: E, attempts: number): E {
+  error.attempts = attempts;
+  return error;
+}
+
+/**
+ * Read the `etag` field Google includes in many resource bodies
+ */
+function readEtag(data: unknown): string | undefined {
+  if (typeof data === 'object' && data !== null && 'etag' in data) {
+    return typeof data.etag === 'string' ? data.etag : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a JSON response body, or return undefined when there is none
+ * (e.g. 204 No Content from a delete)
+ */
+async function readJson<T>(response: Response): Promise<T> {
+  if (response.status === HTTP_STATUS.NO_CONTENT) {
+    return undefined as T;
+  }
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
@@ -0,0 +1,128 @@
+/**
+ * Clock Abstraction
+ *
+ * Time source and timer functions used by the clients and rate limiter.
+ * The default clock uses Date.now() and the global timers; tests and
+ * non-browser hosts can inject their own implementation.
+ */
+
+/**
+ * Opaque handle returned by Clock.setTimeout
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Time source and timer scheduling
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+  /** Schedule a callback after a delay */
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  /** Cancel a scheduled callback */
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Clock backed by Date.now() and the global timer functions
+ *
+ * Globals are looked up on each call so fake timers installed after
+ * module load are still honoured.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  },
+};
+
+/**
+ * Manually advanced clock for deterministic tests and simulations
+ *
+ * @example
+ * const clock = new ManualClock();
+ * const limiter = new RateLimiter(config, clock);
+ * const pending = limiter.acquire();
+ * await clock.advance(1000);
+ */
+export class ManualClock implements Clock {
+  private currentTime: number;
+  private nextId = 1;
+  private readonly timers = new Map<
+    number,
+    { at: number; callback: () => void }
+  >();
+
+  constructor(startTime = 0) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.currentTime + Math.max(0, ms), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Advance time, firing due timers in order
+   *
+   * Drains pending microtasks before each timer so that promise
+   * continuations (which may schedule further timers) run in between.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.currentTime + ms;
+
+    for (;;) {
+      await flushMicrotasks();
+      const due = this.nextDue(target);
+      if (!due) break;
+
+      this.timers.delete(due.id);
+      this.currentTime = due.at;
+      due.callback();
+    }
+
+    this.currentTime = target;
+    await flushMicrotasks();
+  }
+
+  /**
+   * Number of timers still scheduled
+   */
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Find the earliest timer due at or before the target time
+   */
+  private nextDue(
+    target: number
+  ): { id: number; at: number; callback: () => void } | undefined {
+    let earliest: { id: number; at: number; callback: () => void } | undefined;
+    for (const [id, timer] of this.timers) {
+      if (timer.at <= target && (!earliest || timer.at < earliest.at)) {
+        earliest = { id, ...timer };
+      }
+    }
+    return earliest;
+  }
+}
+
+/**
+ * Let chained promise continuations run before continuing
+ */
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+}
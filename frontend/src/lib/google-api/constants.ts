@@ -27,6 +27,100 @@ export interface RateLimitConfig {
   burstSize: number;
   /** Time window in milliseconds for rate tracking */
   windowMs: number;
+  /** Further quota windows enforced alongside the per-user and project buckets */
+  additionalBuckets?: readonly RateLimitBucketConfig[];
+  /**
+   * Separate quota for write operations. When set, the limits above apply
+   * to reads only and writes are charged to their own buckets.
+   */
+  writeQuota?: {
+    requestsPerMinute: number;
+    requestsPerUserPerMinute: number;
+    /** Defaults to `burstSize` */
+    burstSize?: number;
+  };
+  /** Waiters allowed before acquire() throws QueueFullError */
+  maxQueueLength?: number;
+  /**
+   * Tune the per-user rate from observed rate-limit responses (off unless
+   * set; `{}` uses the defaults)
+   */
+  adaptive?: AdaptiveRateConfig;
+}
+
+/**
+ * Additive-increase/multiplicative-decrease tuning of the per-user rate
+ *
+ * Each rate-limit response (429, or a usage-limit 403) multiplies the
+ * per-user refill rate by `decreaseFactor`; each run of
+ * `successesBeforeIncrease` successful requests adds `increaseStep`. The
+ * rate stays between `floor` and `ceiling`, both in requests per window.
+ * Per-user write quotas are scaled by the same ratio.
+ *
+ * The ceiling defaults to the configured per-user rate, so the limiter
+ * never climbs past the documented quota. Raise it only where the quota
+ * is known to be higher (e.g. a Workspace tenant with raised limits).
+ */
+export interface AdaptiveRateConfig {
+  /** Lowest per-user rate, in requests per window (default: 25% of it) */
+  floor?: number;
+  /** Highest per-user rate, in requests per window (default: the configured rate) */
+  ceiling?: number;
+  /** Multiplier applied on a rate-limit response (default: 0.5) */
+  decreaseFactor?: number;
+  /** Requests per window added per increase (default: 5% of the base rate) */
+  increaseStep?: number;
+  /** Consecutive successes needed before each increase (default: 20) */
+  successesBeforeIncrease?: number;
+  /**
+   * Minimum time between decreases, so a burst of concurrent 429s only
+   * counts once (default: 5 seconds)
+   */
+  decreaseCooldownMs?: number;
+}
+
+/**
+ * Kind of operation, for APIs with separate read and write quotas
+ */
+export type OperationKind = 'read' | 'write';
+
+/**
+ * Scheduling priority for requests waiting on the rate limiter
+ *
+ * - `interactive`: the user is waiting on the result (e.g. after a click)
+ * - `normal`: the default
+ * - `background`: bulk work such as exports and prefetching
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+/**
+ * Priorities in the order waiters are served
+ */
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = [
+  'interactive',
+  'normal',
+  'background',
+];
+
+/**
+ * Default limit on waiters queued in a single rate limiter
+ */
+export const DEFAULT_MAX_QUEUE_LENGTH = 1000;
+
+/**
+ * A single quota window enforced as a token bucket
+ */
+export interface RateLimitBucketConfig {
+  /** Name reported in limiter stats (e.g. 'project-100s') */
+  name: string;
+  /** Requests allowed per window */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Maximum tokens held at once (defaults to `limit`) */
+  capacity?: number;
+  /** Only charge this bucket for one kind of operation (default: both) */
+  operation?: OperationKind;
 }
 
 /**
@@ -41,12 +135,20 @@ export const API_RATE_LIMITS: Record<ApiType, RateLimitConfig> = {
     requestsPerUserPerMinute: 2400, // Per-user: ~40/second typical
     burstSize: 100,
     windowMs: 60_000,
+    additionalBuckets: [
+      // Documented project quota window
+      { name: 'project-100s', limit: 20_000, windowMs: 100_000 },
+    ],
   },
   sheets: {
     requestsPerMinute: 300, // Read limit: 300 per minute per project
     requestsPerUserPerMinute: 60, // Per-user: 60 per minute
     burstSize: 10,
     windowMs: 60_000,
+    writeQuota: {
+      requestsPerMinute: 300, // Write limit: 300 per minute per project
+      requestsPerUserPerMinute: 60, // Per-user: 60 per minute
+    },
   },
   calendar: {
     requestsPerMinute: 1800, // Varies by operation type
@@ -56,6 +158,38 @@ export const API_RATE_LIMITS: Record<ApiType, RateLimitConfig> = {
   },
 } as const;
 
+/**
+ * Rate limiter tokens charged by expensive client methods
+ *
+ * Costs are relative weights: methods not listed cost one token. Writes
+ * and quick-add parsing are heavier on Google's side than simple reads.
+ */
+export const OPERATION_COSTS: Record<
+  ApiType,
+  Readonly<Partial<Record<string, number>>>
+> = {
+  drive: {
+    createFile: 2,
+    uploadFile: 2,
+    updateFile: 2,
+    deleteFile: 2,
+    shareFile: 5,
+  },
+  sheets: {
+    updateValues: 2,
+    appendValues: 2,
+    batchUpdateValues: 5,
+    clearValues: 2,
+    createSpreadsheet: 5,
+  },
+  calendar: {
+    createEvent: 2,
+    updateEvent: 2,
+    deleteEvent: 2,
+    quickAdd: 5,
+  },
+} as const;
+
 /**
  * Base URLs for Google APIs
  */
@@ -65,13 +199,46 @@ export const API_ENDPOINTS: Record<ApiType, string> = {
   calendar: 'https://www.googleapis.com/calendar/v3',
 } as const;
 
+/**
+ * Batch endpoints for APIs that support `multipart/mixed` batching.
+ *
+ * The Sheets API has no batch endpoint; use its batchGet/batchUpdate
+ * methods instead.
+ */
+export const BATCH_ENDPOINTS: Partial<Record<ApiType, string>> = {
+  drive: 'https://www.googleapis.com/batch/drive/v3',
+  calendar: 'https://www.googleapis.com/batch/calendar/v3',
+} as const;
+
+/**
+ * Media upload endpoints for APIs that accept file content.
+ */
+export const UPLOAD_ENDPOINTS: Partial<Record<ApiType, string>> = {
+  drive: 'https://www.googleapis.com/upload/drive/v3',
+} as const;
+
+/**
+ * Maximum number of sub-requests per batch call
+ */
+export const MAX_BATCH_SIZE: Partial<Record<ApiType, number>> = {
+  drive: 100,
+  calendar: 50,
+} as const;
+
 /**
  * HTTP status codes that trigger specific behaviors
  */
 export const HTTP_STATUS = {
+  NO_CONTENT: 204,
+  NOT_MODIFIED: 304,
+  RESUME_INCOMPLETE: 308,
+  BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
+  GONE: 410,
+  PRECONDITION_FAILED: 412,
   RATE_LIMITED: 429,
   SERVER_ERROR: 500,
   SERVICE_UNAVAILABLE: 503,
@@ -93,6 +260,120 @@ export const RETRY_CONFIG = {
   jitterFactor: 0.1,
 } as const;
 
+/**
+ * Google error reasons signalling an exhausted usage limit.
+ *
+ * Drive and Calendar report these with a 403 rather than a 429.
+ */
+export const RATE_LIMIT_REASONS: readonly string[] = [
+  'rateLimitExceeded',
+  'userRateLimitExceeded',
+];
+
+/**
+ * Google error reasons signalling a token without a required OAuth scope.
+ */
+export const INSUFFICIENT_SCOPE_REASONS: readonly string[] = [
+  'insufficientPermissions',
+  'ACCESS_TOKEN_SCOPE_INSUFFICIENT',
+];
+
+/**
+ * Google error reasons signalling an exhausted daily or storage quota.
+ */
+export const QUOTA_EXCEEDED_REASONS: readonly string[] = [
+  'quotaExceeded',
+  'dailyLimitExceeded',
+  'storageQuotaExceeded',
+];
+
+/**
+ * Google error reasons signalling a failed request precondition.
+ */
+export const PRECONDITION_FAILED_REASONS: readonly string[] = [
+  'conditionNotMet',
+  'failedPrecondition',
+];
+
+/**
+ * Google error reasons signalling a conflict with an existing resource.
+ */
+export const CONFLICT_REASONS: readonly string[] = ['duplicate', 'conflict'];
+
+/**
+ * Retry policy applied to each request independently
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts per request, including the first one */
+  maxAttempts: number;
+  /** HTTP status codes that should be retried */
+  retryableStatuses: readonly number[];
+  /** Google error reasons (`errors[].reason`) that should be retried */
+  retryableReasons: readonly string[];
+}
+
+/**
+ * Default retry policy: rate limits and transient server errors
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: RETRY_CONFIG.maxRetries + 1,
+  retryableStatuses: [
+    HTTP_STATUS.RATE_LIMITED,
+    HTTP_STATUS.SERVER_ERROR,
+    HTTP_STATUS.SERVICE_UNAVAILABLE,
+  ],
+  retryableReasons: RATE_LIMIT_REASONS,
+};
+
+/**
+ * Thresholds for opening and closing endpoint circuits
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive server errors that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before allowing trial requests */
+  resetTimeoutMs: number;
+  /** Trial requests allowed at once while half-open */
+  halfOpenMaxRequests: number;
+}
+
+/**
+ * Default circuit breaker thresholds
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * Default response cache TTLs in milliseconds, keyed by client method.
+ *
+ * Only applies when a cache is configured on the client. Methods not
+ * listed here are never cached.
+ */
+export const CACHE_TTLS: Record<
+  ApiType,
+  Readonly<Partial<Record<string, number>>>
+> = {
+  drive: {
+    listFiles: 30_000,
+    getFile: 60_000,
+    listPermissions: 60_000,
+    getAbout: 300_000,
+  },
+  sheets: {
+    listSpreadsheets: 30_000,
+    getSpreadsheet: 60_000,
+  },
+  calendar: {
+    listCalendars: 300_000,
+    getCalendar: 300_000,
+    listEvents: 30_000,
+    getEvent: 60_000,
+  },
+};
+
 /**
  * MIME types for Google Workspace documents
  */
@@ -107,3 +388,60 @@ export const GOOGLE_MIME_TYPES = {
   SITE: 'application/vnd.google-apps.site',
   SHORTCUT: 'application/vnd.google-apps.shortcut',
 } as const;
+
+export type GoogleMimeType =
+  (typeof GOOGLE_MIME_TYPES)[keyof typeof GOOGLE_MIME_TYPES];
+
+/**
+ * Formats each Google Workspace type can be exported to with
+ * `files.export`
+ *
+ * @see https://developers.google.com/drive/api/guides/ref-export-formats
+ */
+export const EXPORT_FORMATS = {
+  [GOOGLE_MIME_TYPES.DOCUMENT]: [
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.oasis.opendocument.text',
+    'application/rtf',
+    'text/plain',
+    'text/markdown',
+    'application/zip',
+    'application/epub+zip',
+  ],
+  [GOOGLE_MIME_TYPES.SPREADSHEET]: [
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/x-vnd.oasis.opendocument.spreadsheet',
+    'text/csv',
+    'text/tab-separated-values',
+    'application/zip',
+  ],
+  [GOOGLE_MIME_TYPES.PRESENTATION]: [
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.presentation',
+    'text/plain',
+    'image/jpeg',
+    'image/png',
+    'image/svg+xml',
+  ],
+  [GOOGLE_MIME_TYPES.DRAWING]: [
+    'application/pdf',
+    'image/jpeg',
+    'image/png',
+    'image/svg+xml',
+  ],
+  [GOOGLE_MIME_TYPES.SCRIPT]: ['application/vnd.google-apps.script+json'],
+} as const satisfies Partial<Record<GoogleMimeType, readonly string[]>>;
+
+/**
+ * Google Workspace types that can be exported
+ */
+export type ExportableMimeType = keyof typeof EXPORT_FORMATS;
+
+/**
+ * Formats a Workspace type can be exported to (any type's by default)
+ */
+export type ExportMimeType<M extends ExportableMimeType = ExportableMimeType> =
+  (typeof EXPORT_FORMATS)[M][number];
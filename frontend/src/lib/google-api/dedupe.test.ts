@@ -0,0 +1,131 @@
+/**
+ * Request Deduplication Tests
+ *
+ * Tests for sharing identical in-flight GET requests between callers and
+ * clients, and for per-caller cancellation of shared requests.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleDriveClient } from './drive';
+import { RequestAbortedError, type ClientConfig } from './types';
+
+function about(): Response {
+  return new Response(
+    JSON.stringify({ user: { displayName: 'Ada' }, storageQuota: {} })
+  );
+}
+
+/**
+ * Fetch mock whose responses are released by the test
+ */
+function deferredFetch() {
+  const pending: (() => void)[] = [];
+  const fetchMock = vi.fn<typeof fetch>(
+    (_input, init) =>
+      new Promise((resolve, reject) => {
+        pending.push(() => {
+          resolve(about());
+        });
+        init?.signal?.addEventListener('abort', () => {
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      })
+  );
+  const respond = () => {
+    pending.splice(0).forEach((release) => {
+      release();
+    });
+  };
+  return { fetchMock, respond };
+}
+
+function drive(fetchImpl: typeof fetch, config: Partial<ClientConfig> = {}) {
+  return new GoogleDriveClient({
+    accessToken: 'dedupe-token',
+    fetch: fetchImpl,
+    ...config,
+  });
+}
+
+describe('GoogleApiClient request deduplication', () => {
+  it('should share one request between identical concurrent GETs', async () => {
+    const { fetchMock, respond } = deferredFetch();
+    const first = drive(fetchMock);
+    const second = drive(fetchMock);
+
+    const results = Promise.all([
+      first.getAbout(),
+      first.getAbout(),
+      second.getAbout(),
+    ]);
+    await vi.waitFor(() => {
+      expect(fetchMock).toHaveBeenCalled();
+    });
+    respond();
+
+    const [a, b, c] = await results;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(b).toEqual(a);
+    expect(c).toEqual(a);
+  });
+
+  it('should not share requests made with different tokens', async () => {
+    const { fetchMock, respond } = deferredFetch();
+
+    const results = Promise.all([
+      drive(fetchMock).getAbout(),
+      drive(fetchMock, { accessToken: 'other-token' }).getAbout(),
+    ]);
+    await vi.waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+    respond();
+    await results;
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send every request when deduplication is off', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(about()));
+    const client = drive(fetchMock, { dedupe: false });
+
+    await Promise.all([client.getAbout(), client.getAbout()]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject only the caller that aborted', async () => {
+    const { fetchMock, respond } = deferredFetch();
+    const client = drive(fetchMock);
+    const controller = new AbortController();
+
+    const aborted = client.getAbout({ signal: controller.signal });
+    const kept = client.getAbout();
+    await vi.waitFor(() => {
+      expect(fetchMock).toHaveBeenCalled();
+    });
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    respond();
+
+    await expect(kept).resolves.toMatchObject({
+      user: { displayName: 'Ada' },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the shared request once every caller has aborted', async () => {
+    const { fetchMock } = deferredFetch();
+    const client = drive(fetchMock);
+    const controller = new AbortController();
+
+    const pending = client.getAbout({ signal: controller.signal });
+    await vi.waitFor(() => {
+      expect(fetchMock).toHaveBeenCalled();
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetchMock.mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+  });
+});
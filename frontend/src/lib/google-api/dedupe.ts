@@ -0,0 +1,105 @@
+/**
+ * In-flight Request Deduplication
+ *
+ * Coalesces identical GET requests that are in flight at the same time, so
+ * components asking for the same data (or a component mounted twice under
+ * StrictMode) share one network round trip and one rate limiter token.
+ *
+ * Each caller keeps its own cancellation: aborting one caller rejects only
+ * that caller, and the shared request is cancelled once every caller has
+ * gone.
+ */
+
+import { toAbortError } from './abort';
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  waiters: number;
+}
+
+/**
+ * Shared promises for in-flight requests, by request key
+ */
+export class InFlightRequests {
+  private readonly requests = new Map<string, InFlight>();
+
+  /**
+   * Join the in-flight request for a key, or start it with `load`
+   *
+   * @param key - Identifies identical requests (e.g. token and URL)
+   * @param load - Starts the request; aborted once no caller is waiting
+   * @param signal - This caller's cancellation signal
+   */
+  run<T>(
+    key: string,
+    load: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal));
+    }
+
+    let entry = this.requests.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const started: InFlight = {
+        promise: load(controller.signal).finally(() => {
+          this.forget(key, started);
+        }),
+        controller,
+        waiters: 0,
+      };
+      // Callers handle the outcome; this covers a request every caller
+      // abandoned before it settled
+      started.promise.catch(() => undefined);
+      this.requests.set(key, started);
+      entry = started;
+    }
+
+    const joined = entry;
+    joined.waiters += 1;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (signal) reject(toAbortError(signal));
+        joined.waiters -= 1;
+        if (joined.waiters === 0) {
+          this.forget(key, joined);
+          joined.controller.abort();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      joined.promise.then(
+        (data) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(data as T);
+        },
+        (error: unknown) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error as Error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Number of distinct requests in flight
+   */
+  get size(): number {
+    return this.requests.size;
+  }
+
+  private forget(key: string, entry: InFlight): void {
+    if (this.requests.get(key) === entry) {
+      this.requests.delete(key);
+    }
+  }
+}
+
+/**
+ * In-flight requests shared by every client in this JavaScript context
+ */
+export const defaultInFlightRequests = new InFlightRequests();
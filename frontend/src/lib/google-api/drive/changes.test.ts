@@ -0,0 +1,239 @@
+/**
+ * Drive Change Sync Tests
+ *
+ * Tests for the Changes API methods and for syncing typed change sets from
+ * a saved page token.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleDriveClient } from '.';
+import { ManualClock } from '../clock';
+import { RequestAbortedError } from '../types';
+import { DriveChangeSync, type ChangeTokenStorage } from './changes';
+import type { DriveChange } from './types';
+
+const SYNCED_AT = Date.parse('2026-03-01T12:00:00Z');
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body));
+}
+
+function memoryStorage(): ChangeTokenStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+function fileChange(
+  id: string,
+  file: { createdTime?: string; trashed?: boolean } = {}
+): DriveChange {
+  return {
+    changeType: 'file',
+    fileId: id,
+    file: {
+      id,
+      name: `${id}.txt`,
+      mimeType: 'text/plain',
+      createdTime: '2026-01-01T00:00:00Z',
+      ...file,
+    },
+  };
+}
+
+function urlOf(fetchMock: ReturnType<typeof vi.fn<typeof fetch>>, call = 0) {
+  return new URL(fetchMock.mock.calls[call]?.[0] as string);
+}
+
+function setup(...responses: unknown[]) {
+  const fetchMock = vi.fn<typeof fetch>();
+  for (const body of responses) {
+    fetchMock.mockResolvedValueOnce(json(body));
+  }
+  const drive = new GoogleDriveClient({
+    accessToken: 'token',
+    dedupe: false,
+    retryPolicy: { maxAttempts: 1 },
+    fetch: fetchMock,
+  });
+  const storage = memoryStorage();
+  const clock = new ManualClock(SYNCED_AT);
+  return { fetchMock, drive, storage, clock };
+}
+
+describe('GoogleDriveClient changes', () => {
+  it('should get a start page token', async () => {
+    const { fetchMock, drive } = setup({ startPageToken: '42' });
+
+    await expect(
+      drive.getStartPageToken({ supportsAllDrives: true })
+    ).resolves.toBe('42');
+    const url = urlOf(fetchMock);
+    expect(url.pathname).toBe('/drive/v3/changes/startPageToken');
+    expect(url.searchParams.get('supportsAllDrives')).toBe('true');
+  });
+
+  it('should include shared drive items when supporting all drives', async () => {
+    const { fetchMock, drive } = setup({
+      changes: [],
+      newStartPageToken: '43',
+    });
+
+    await drive.listChanges('42', { supportsAllDrives: true, pageSize: 500 });
+
+    const params = urlOf(fetchMock).searchParams;
+    expect(params.get('pageToken')).toBe('42');
+    expect(params.get('pageSize')).toBe('500');
+    expect(params.get('includeItemsFromAllDrives')).toBe('true');
+    expect(params.get('fields')).toContain('file(id,name,');
+  });
+});
+
+describe('DriveChangeSync', () => {
+  it('should save a start token and ask for a full listing first', async () => {
+    const { drive, storage, clock } = setup({ startPageToken: '42' });
+    const sync = new DriveChangeSync(drive, { userKey: 'u1', storage, clock });
+
+    await expect(sync.sync()).resolves.toEqual({
+      reset: true,
+      added: [],
+      modified: [],
+      trashed: [],
+      removed: [],
+    });
+    expect(
+      JSON.parse(storage.items.get('google-api-drive-changes:u1') ?? '')
+    ).toEqual({ token: '42', syncedAt: SYNCED_AT });
+  });
+
+  it('should page through changes and group them by kind', async () => {
+    const { fetchMock, drive, storage, clock } = setup(
+      { startPageToken: '1' },
+      {
+        changes: [
+          fileChange('new', { createdTime: '2026-03-01T12:30:00Z' }),
+          fileChange('edited'),
+          { changeType: 'drive', driveId: 'shared' },
+        ],
+        nextPageToken: '2',
+      },
+      {
+        changes: [
+          fileChange('binned', { trashed: true }),
+          { changeType: 'file', fileId: 'gone', removed: true },
+          fileChange('edited'),
+        ],
+        newStartPageToken: '3',
+      }
+    );
+    const sync = new DriveChangeSync(drive, { userKey: 'u1', storage, clock });
+    await sync.sync();
+    await clock.advance(60_000);
+
+    const changes = await sync.sync();
+
+    expect(changes.reset).toBe(false);
+    expect(changes.added.map(({ id }) => id)).toEqual(['new']);
+    expect(changes.modified.map(({ id }) => id)).toEqual(['edited']);
+    expect(changes.trashed.map(({ id }) => id)).toEqual(['binned']);
+    expect(changes.removed).toEqual(['gone']);
+    expect(urlOf(fetchMock, 2).searchParams.get('pageToken')).toBe('2');
+    expect(
+      JSON.parse(storage.items.get('google-api-drive-changes:u1') ?? '')
+    ).toEqual({ token: '3', syncedAt: SYNCED_AT + 60_000 });
+  });
+
+  it('should keep the saved token when a sync fails', async () => {
+    const { fetchMock, drive, storage, clock } = setup({
+      changes: [fileChange('a')],
+      nextPageToken: '6',
+    });
+    fetchMock.mockRejectedValueOnce(new Error('offline'));
+    storage.setItem(
+      'google-api-drive-changes:u1',
+      JSON.stringify({ token: '5', syncedAt: SYNCED_AT })
+    );
+    const sync = new DriveChangeSync(drive, { userKey: 'u1', storage, clock });
+
+    await expect(sync.sync()).rejects.toThrow('offline');
+
+    expect(
+      JSON.parse(storage.items.get('google-api-drive-changes:u1') ?? '')
+    ).toMatchObject({ token: '5' });
+  });
+
+  it('should keep separate tokens per user and shared drive', async () => {
+    const { drive, storage } = setup(
+      { startPageToken: '10' },
+      { startPageToken: '20' }
+    );
+
+    await new DriveChangeSync(drive, { userKey: 'u1', storage }).sync();
+    await new DriveChangeSync(drive, {
+      userKey: 'u1',
+      driveId: 'd1',
+      supportsAllDrives: true,
+      storage,
+    }).sync();
+
+    expect([...storage.items.keys()]).toEqual([
+      'google-api-drive-changes:u1',
+      'google-api-drive-changes:u1:d1',
+    ]);
+  });
+
+  it('should start over after a reset', async () => {
+    const { fetchMock, drive, storage } = setup(
+      { startPageToken: '1' },
+      { startPageToken: '9' }
+    );
+    const sync = new DriveChangeSync(drive, { userKey: 'u1', storage });
+    await sync.sync();
+
+    sync.reset();
+    const changes = await sync.sync();
+
+    expect(changes.reset).toBe(true);
+    expect(urlOf(fetchMock, 1).pathname).toBe(
+      '/drive/v3/changes/startPageToken'
+    );
+  });
+
+  it('should start a new sync after the only caller aborts', async () => {
+    const { drive, storage, clock } = setup(
+      { startPageToken: '1' },
+      { startPageToken: '2' }
+    );
+    const sync = new DriveChangeSync(drive, { userKey: 'u1', storage, clock });
+    const controller = new AbortController();
+
+    const aborted = sync.sync({ signal: controller.signal });
+    controller.abort();
+    const retried = sync.sync();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(retried).resolves.toMatchObject({ reset: true });
+  });
+
+  it('should keep a shared sync going for callers that did not abort', async () => {
+    const { fetchMock, drive, storage, clock } = setup({ startPageToken: '1' });
+    const sync = new DriveChangeSync(drive, { userKey: 'u1', storage, clock });
+    const controller = new AbortController();
+
+    const aborted = sync.sync({ signal: controller.signal });
+    const kept = sync.sync();
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(kept).resolves.toMatchObject({ reset: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
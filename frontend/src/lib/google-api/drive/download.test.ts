@@ -0,0 +1,229 @@
+/**
+ * Drive Download Tests
+ *
+ * Tests for streamed downloads and Workspace exports: progress, byte
+ * ranges, cancellation, format checks and the shared retry and error path.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleDriveClient } from '.';
+import { GOOGLE_MIME_TYPES } from '../constants';
+import {
+  NotFoundError,
+  RequestAbortedError,
+  UnsupportedExportError,
+} from '../types';
+import type { DownloadProgress } from './types';
+
+function media(body: string, init: ResponseInit = {}): Response {
+  return new Response(new TextEncoder().encode(body), init);
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = '';
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+describe('GoogleDriveClient.downloadFileStream', () => {
+  it('should stream content and report progress', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() =>
+      Promise.resolve(media('a,b\n1,2', { headers: { 'Content-Length': '7' } }))
+    );
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+    const progress: DownloadProgress[] = [];
+
+    const stream = await drive.downloadFileStream('f1', {
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(await readAll(stream)).toBe('a,b\n1,2');
+    expect(progress.at(-1)).toEqual({ bytesReceived: 7, totalBytes: 7 });
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      'https://www.googleapis.com/drive/v3/files/f1?alt=media'
+    );
+  });
+
+  it('should request a byte range to resume a download', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() =>
+      Promise.resolve(
+        media('rest', {
+          status: 206,
+          headers: { 'Content-Range': 'bytes 6-9/10' },
+        })
+      )
+    );
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+    const progress: DownloadProgress[] = [];
+
+    const stream = await drive.downloadFileStream('f1', {
+      start: 6,
+      acknowledgeAbuse: true,
+      onProgress: (update) => progress.push(update),
+    });
+    await readAll(stream);
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toContain('acknowledgeAbuse=true');
+    expect((init?.headers as Record<string, string>).Range).toBe('bytes=6-');
+    expect(progress.at(-1)).toEqual({ bytesReceived: 10, totalBytes: 10 });
+  });
+
+  it('should drop the bytes before the range when Drive sends the whole file', async () => {
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: () =>
+        Promise.resolve(
+          media('abcdefghij', { headers: { 'Content-Length': '10' } })
+        ),
+    });
+    const progress: DownloadProgress[] = [];
+
+    const resumed = await drive.downloadFileStream('f1', {
+      start: 6,
+      onProgress: (update) => progress.push(update),
+    });
+    const slice = await drive.downloadFileStream('f1', { start: 2, end: 4 });
+
+    expect(await readAll(resumed)).toBe('ghij');
+    expect(progress.at(-1)).toEqual({ bytesReceived: 10, totalBytes: 10 });
+    expect(await readAll(slice)).toBe('cde');
+  });
+
+  it('should refresh an expired token and retry', async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ error: { code: 401, message: 'Invalid' } }),
+          { status: 401 }
+        )
+      )
+      .mockResolvedValueOnce(media('data'));
+    const drive = new GoogleDriveClient({
+      accessToken: 'old',
+      onTokenExpired: () => Promise.resolve('new'),
+      fetch: fetchMock,
+    });
+
+    expect(await readAll(await drive.downloadFileStream('f1'))).toBe('data');
+    const headers = fetchMock.mock.calls[1]?.[1]?.headers as Record<
+      string,
+      string
+    >;
+    expect(headers.Authorization).toBe('Bearer new');
+  });
+
+  it('should stop the stream when the request is aborted', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        controller.enqueue(new TextEncoder().encode('partial'));
+      },
+    });
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: () => Promise.resolve(new Response(body)),
+    });
+    const controller = new AbortController();
+
+    const reader = (
+      await drive.downloadFileStream('f1', {}, { signal: controller.signal })
+    ).getReader();
+    await reader.read();
+    controller.abort();
+
+    await expect(reader.read()).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
+
+describe('GoogleDriveClient.downloadFile', () => {
+  it('should throw typed errors', async () => {
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: () =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({ error: { code: 404, message: 'File not found' } }),
+            { status: 404 }
+          )
+        ),
+    });
+
+    await expect(drive.downloadFile('missing')).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
+
+describe('GoogleDriveClient.exportFile', () => {
+  it('should export a Workspace file to a supported format', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(media('a,b')));
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+
+    const stream = await drive.exportFile('s1', 'text/csv', {
+      sourceMimeType: GOOGLE_MIME_TYPES.SPREADSHEET,
+    });
+
+    expect(await readAll(stream)).toBe('a,b');
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      'https://www.googleapis.com/drive/v3/files/s1/export?mimeType=text%2Fcsv'
+    );
+  });
+
+  it('should look up the file type when it is not given', async () => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ mimeType: GOOGLE_MIME_TYPES.DOCUMENT }))
+      )
+      .mockResolvedValueOnce(media('# Title'));
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+
+    const stream = await drive.exportFile('d1', 'text/markdown');
+
+    expect(await readAll(stream)).toBe('# Title');
+    expect(fetchMock.mock.calls[0]?.[0]).toContain('fields=mimeType');
+  });
+
+  it('should fail without downloading when the format is unsupported', async () => {
+    const fetchMock = vi.fn<typeof fetch>();
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+
+    const error = await drive
+      .exportFile('s1', 'text/markdown', {
+        sourceMimeType: GOOGLE_MIME_TYPES.SPREADSHEET,
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UnsupportedExportError);
+    expect((error as UnsupportedExportError).supportedMimeTypes).toContain(
+      'text/csv'
+    );
+    await expect(
+      drive.exportFile('f1', 'application/pdf', {
+        sourceMimeType: 'application/pdf',
+      })
+    ).rejects.toThrow('only Google Workspace files can be exported');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -7,19 +7,82 @@
  * @see https://developers.google.com/drive/api/v3/reference
  */
 
+import { createRequestSignal, toAbortError } from '../abort';
+import { createBoundary } from '../batch';
 import { GoogleApiClient } from '../client';
-import type { ClientConfig } from '../types';
 import {
+  EXPORT_FORMATS,
+  GOOGLE_MIME_TYPES,
+  HTTP_STATUS,
+  UPLOAD_ENDPOINTS,
+  type ExportableMimeType,
+  type ExportMimeType,
+} from '../constants';
+import {
+  buildFieldMask,
+  selectSchema,
+  selectSchemaByFields,
+  type FieldMask,
+  type SelectFields,
+} from '../fields';
+import type { Schema } from '../schema';
+import type { PaginateOptions, Paginator } from '../paginate';
+import {
+  GoogleApiError,
+  NotFoundError,
+  RateLimitError,
+  UnsupportedExportError,
+  type ClientConfig,
+  type RequestOptions,
+} from '../types';
+import {
+  DEFAULT_CHANGE_FILE_FIELDS,
   DEFAULT_FILE_FIELDS,
   DETAILED_FILE_FIELDS,
+  TREE_FILE_FIELDS,
   type AboutInfo,
+  type ChangeListOptions,
+  type ChangeListResponse,
+  type DownloadOptions,
+  type DownloadProgress,
   type DriveFile,
+  type ExportOptions,
   type FileListOptions,
   type FileListResponse,
   type FileMetadata,
+  type FolderTreeEntry,
   type GetFileOptions,
   type Permission,
+  type PermissionListResponse,
+  type ResolvePathOptions,
+  type StartPageTokenOptions,
+  type UploadOptions,
+  type WalkFolderOptions,
 } from './types';
+import {
+  aboutInfoSchema,
+  changeListSchema,
+  driveFileSchema,
+  fileListSchema,
+  permissionListResponseSchema,
+  permissionSchema,
+  startPageTokenSchema,
+} from './schemas';
+import {
+  buildMultipartBody,
+  contentRange,
+  parseUploadOffset,
+  RESUMABLE_UPLOAD_THRESHOLD,
+  resumableChunkSize,
+} from './upload';
+import {
+  FolderCache,
+  joinPath,
+  mapWithConcurrency,
+  quoteQueryValue,
+  splitPath,
+  type FolderNode,
+} from './tree';
 
 // Re-export types for convenience
 export * from './types';
@@ -30,11 +93,15 @@ export * from './types';
  * Provides methods for:
  * - Listing files with filtering and pagination
  * - Getting file metadata
+ * - Navigating folders and resolving paths
  * - Downloading file content
- * - Creating and updating files
+ * - Creating, uploading and updating files
  * - Managing file permissions
+ * - Following the change log
  */
 export class GoogleDriveClient extends GoogleApiClient {
+  private readonly folders = new FolderCache(this.clock);
+
   constructor(config: ClientConfig) {
     super(config, 'drive');
   }
@@ -43,6 +110,7 @@ export class GoogleDriveClient extends GoogleApiClient {
    * List files in Drive
    *
    * @param options - List options (pagination, filtering, etc.)
+   * @param requestOptions - Cancellation signal and timeout
    * @returns List of files with optional next page token
    *
    * @example
@@ -51,19 +119,32 @@ export class GoogleDriveClient extends GoogleApiClient {
    *   q: "mimeType='application/vnd.google-apps.spreadsheet'",
    *   orderBy: 'modifiedTime desc',
    * });
+   *
+   * // Only the selected fields are requested and typed
+   * const { files } = await drive.listFiles({ fields: ['id', 'name'] });
    */
-  async listFiles(options: FileListOptions = {}): Promise<FileListResponse> {
+  listFiles<const M extends FieldMask<DriveFile>>(
+    options: FileListOptions & { fields: M },
+    requestOptions?: RequestOptions
+  ): Promise<FileListResponse<SelectFields<DriveFile, M>>>;
+  listFiles(
+    options?: FileListOptions,
+    requestOptions?: RequestOptions
+  ): Promise<FileListResponse>;
+  async listFiles(
+    options: FileListOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<FileListResponse> {
     const params: Record<string, string> = {};
+    const { fields, schema } = selectFileFields(
+      options.fields ?? DEFAULT_FILE_FIELDS
+    );
 
     if (options.pageSize) params.pageSize = String(options.pageSize);
     if (options.pageToken) params.pageToken = options.pageToken;
     if (options.q) params.q = options.q;
     if (options.orderBy) params.orderBy = options.orderBy;
-    if (options.fields) {
-      params.fields = `nextPageToken,files(${options.fields})`;
-    } else {
-      params.fields = `nextPageToken,files(${DEFAULT_FILE_FIELDS})`;
-    }
+    params.fields = `nextPageToken,files(${fields})`;
     if (options.corpora) params.corpora = options.corpora;
     if (options.includeItemsFromAllDrives !== undefined) {
       params.includeItemsFromAllDrives = String(
@@ -74,7 +155,37 @@ export class GoogleDriveClient extends GoogleApiClient {
       params.supportsAllDrives = String(options.supportsAllDrives);
     }
 
-    return this.get<FileListResponse>('/files', params);
+    return this.get<FileListResponse>(
+      '/files',
+      params,
+      this.withCacheTtl('listFiles', requestOptions),
+      fileListSchema(schema)
+    );
+  }
+
+  /**
+   * Iterate over files, fetching pages lazily
+   *
+   * @param options - List options
+   * @param paginateOptions - Start token, item cap, cancellation and timeout
+   * @returns Paginator over matching files
+   *
+   * @example
+   * for await (const page of drive.iterateFiles({ pageSize: 200 }).pages()) {
+   *   appendRows(page.items);
+   * }
+   */
+  iterateFiles(
+    options: Omit<FileListOptions, 'pageToken'> = {},
+    paginateOptions: PaginateOptions = {}
+  ): Paginator<DriveFile> {
+    return this.paginate(async (pageToken, requestOptions) => {
+      const response = await this.listFiles(
+        { ...options, pageToken, pageSize: options.pageSize ?? 100 },
+        requestOptions
+      );
+      return { items: response.files, nextPageToken: response.nextPageToken };
+    }, paginateOptions);
   }
 
   /**
@@ -82,32 +193,270 @@ export class GoogleDriveClient extends GoogleApiClient {
    *
    * @param options - List options
    * @param maxResults - Maximum total results to fetch (default: no limit)
+   * @param requestOptions - Cancellation signal and timeout
    * @returns All matching files
    */
   async listAllFiles(
     options: Omit<FileListOptions, 'pageToken'> = {},
-    maxResults?: number
+    maxResults?: number,
+    requestOptions: RequestOptions = {}
+  ): Promise<DriveFile[]> {
+    return this.iterateFiles(options, {
+      ...requestOptions,
+      maxItems: maxResults,
+    }).toArray();
+  }
+
+  /**
+   * List every file in a folder
+   *
+   * @param folderId - The folder ID (`root` for My Drive)
+   * @param options - List options; `q` narrows the folder's files further
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns The folder's files, excluding trashed ones
+   */
+  async listChildren(
+    folderId: string,
+    options: Omit<FileListOptions, 'pageToken'> = {},
+    requestOptions: RequestOptions = {}
   ): Promise<DriveFile[]> {
-    const allFiles: DriveFile[] = [];
-    let pageToken: string | undefined;
+    const q = [
+      `${quoteQueryValue(folderId)} in parents`,
+      'trashed=false',
+      ...(options.q ? [`(${options.q})`] : []),
+    ].join(' and ');
 
-    do {
-      const response = await this.listFiles({
+    return this.listAllFiles(
+      {
         ...options,
-        pageToken,
-        pageSize: options.pageSize ?? 100,
+        q,
+        fields: options.fields ?? TREE_FILE_FIELDS,
+        pageSize: options.pageSize ?? 1000,
+      },
+      undefined,
+      requestOptions
+    );
+  }
+
+  /**
+   * List the files below a folder, level by level
+   *
+   * Each folder is listed once, under the first path it is found at, so
+   * folders with several parents and shortcut cycles don't repeat work.
+   * Files with several parents are reported once per listed parent.
+   *
+   * @param folderId - The folder to walk (`root` for My Drive)
+   * @param options - Depth limit, concurrency and shortcut handling
+   * @param requestOptions - Cancellation signal and timeout per request
+   * @returns Files with their paths from the walked folder
+   *
+   * @example
+   * const entries = await drive.walkFolder(folderId, { maxDepth: 2 });
+   * const sheets = entries.filter(
+   *   ({ file }) => file.mimeType === GOOGLE_MIME_TYPES.SPREADSHEET
+   * );
+   */
+  async walkFolder(
+    folderId: string,
+    options: WalkFolderOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<FolderTreeEntry[]> {
+    const {
+      maxDepth = Infinity,
+      concurrency = 4,
+      followShortcuts = true,
+    } = options;
+    const listOptions = sharedDriveOptions(options.supportsAllDrives);
+    const entries: FolderTreeEntry[] = [];
+    const visited = new Set([folderId]);
+    let level = [{ id: folderId, path: '' }];
+
+    for (let depth = 1; level.length > 0 && depth <= maxDepth; depth++) {
+      const listings = await mapWithConcurrency(level, concurrency, (folder) =>
+        this.listChildren(folder.id, listOptions, requestOptions)
+      );
+      const nextLevel: typeof level = [];
+
+      level.forEach((folder, index) => {
+        for (const file of listings[index] ?? []) {
+          const path = `${folder.path}/${file.name}`;
+          entries.push({ file, path, depth });
+          if (file.mimeType === GOOGLE_MIME_TYPES.FOLDER) {
+            this.folders.setNode(file.id, folderNodeOf(file));
+          }
+
+          const childId = folderIdOf(file, followShortcuts);
+          if (childId && !visited.has(childId)) {
+            visited.add(childId);
+            nextLevel.push({ id: childId, path });
+          }
+        }
       });
+      level = nextLevel;
+    }
+    return entries;
+  }
+
+  /**
+   * Find the file at a path such as `/Reports/2026/Q3.xlsx`
+   *
+   * Shortcuts along the path are followed to their target folders.
+   * Folders found on the way are cached for a few minutes, so resolving
+   * paths in the same folder costs one request each.
+   *
+   * @param path - `/`-separated file names, from the root folder
+   * @param options - Root folder and final shortcut handling
+   * @param requestOptions - Cancellation signal and timeout per request
+   * @returns The file (or the root folder for `/`)
+   * @throws NotFoundError if a name along the path doesn't exist
+   */
+  async resolvePath(
+    path: string,
+    options: ResolvePathOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<DriveFile> {
+    const { rootId = 'root', followShortcuts = true } = options;
+    const listOptions = sharedDriveOptions(options.supportsAllDrives);
+    const names = splitPath(path);
+    const fileName = names.pop();
+    if (fileName === undefined) {
+      return this.getFile(rootId, { fields: TREE_FILE_FIELDS }, requestOptions);
+    }
 
-      allFiles.push(...response.files);
-      pageToken = response.nextPageToken;
+    // Start below the deepest folder already resolved
+    let resolved = names.length;
+    let parentId: string | undefined;
+    while (resolved > 0 && parentId === undefined) {
+      parentId = this.folders.getId(rootId, joinPath(names.slice(0, resolved)));
+      if (parentId === undefined) resolved -= 1;
+    }
+    parentId ??= rootId;
 
-      // Check if we've reached the max
-      if (maxResults && allFiles.length >= maxResults) {
-        return allFiles.slice(0, maxResults);
+    for (; resolved < names.length; resolved++) {
+      const folderPath = joinPath(names.slice(0, resolved + 1));
+      const folder = await this.findChild(
+        parentId,
+        names[resolved] ?? '',
+        true,
+        listOptions,
+        requestOptions
+      );
+      const folderId = folder && folderIdOf(folder, true);
+      if (!folder || !folderId) {
+        throw new NotFoundError('Folder', folderPath);
       }
-    } while (pageToken);
+      this.folders.setId(rootId, folderPath, folderId);
+      parentId = folderId;
+    }
 
-    return allFiles;
+    const file = await this.findChild(
+      parentId,
+      fileName,
+      false,
+      listOptions,
+      requestOptions
+    );
+    if (!file) {
+      throw new NotFoundError('File', joinPath([...names, fileName]));
+    }
+    return followShortcuts && file.shortcutDetails
+      ? this.getFile(
+          file.shortcutDetails.targetId,
+          { fields: TREE_FILE_FIELDS },
+          requestOptions
+        )
+      : file;
+  }
+
+  /**
+   * Build the path of a file, e.g. `/Reports/2026/Q3.xlsx`
+   *
+   * The top folder (My Drive, or a shared drive's root) isn't part of the
+   * path. Files with several parents get the path through their first
+   * parent.
+   *
+   * @param fileId - The file ID
+   * @param requestOptions - Cancellation signal and timeout per request
+   * @returns Path from the top folder
+   */
+  async getPath(
+    fileId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<string> {
+    const file = await this.getFile(
+      fileId,
+      { fields: ['id', 'name', 'parents'] },
+      requestOptions
+    );
+    const names = [file.name];
+    const seen = new Set([file.id]);
+    let parentId = file.parents?.[0];
+
+    while (parentId !== undefined && !seen.has(parentId)) {
+      seen.add(parentId);
+      const folder = await this.folderNode(parentId, requestOptions);
+      if (!folder.parents?.length) {
+        break;
+      }
+      names.unshift(folder.name);
+      parentId = folder.parents[0];
+    }
+    return joinPath(names);
+  }
+
+  /**
+   * Forget cached folder IDs and names, e.g. after moving folders
+   */
+  clearFolderCache(): void {
+    this.folders.clear();
+  }
+
+  /**
+   * Find a file by name in a folder, preferring real files to shortcuts
+   *
+   * @param foldersOnly - Only match folders and shortcuts to folders
+   */
+  private async findChild(
+    parentId: string,
+    name: string,
+    foldersOnly: boolean,
+    listOptions: Omit<FileListOptions, 'pageToken'>,
+    requestOptions: RequestOptions
+  ): Promise<DriveFile | undefined> {
+    const q = foldersOnly
+      ? `name=${quoteQueryValue(name)} and (mimeType='${GOOGLE_MIME_TYPES.FOLDER}' or mimeType='${GOOGLE_MIME_TYPES.SHORTCUT}')`
+      : `name=${quoteQueryValue(name)}`;
+    const matches = (
+      await this.listChildren(parentId, { ...listOptions, q }, requestOptions)
+    ).filter((file) => !foldersOnly || folderIdOf(file, true));
+
+    const found =
+      matches.find((file) => !file.shortcutDetails) ?? matches.at(0);
+    if (found?.mimeType === GOOGLE_MIME_TYPES.FOLDER) {
+      this.folders.setNode(found.id, folderNodeOf(found));
+    }
+    return found;
+  }
+
+  /**
+   * Name and parents of a folder, from the cache when possible
+   */
+  private async folderNode(
+    folderId: string,
+    requestOptions: RequestOptions
+  ): Promise<FolderNode> {
+    const cached = this.folders.getNode(folderId);
+    if (cached) {
+      return cached;
+    }
+    const folder = await this.getFile(
+      folderId,
+      { fields: ['id', 'name', 'parents'] },
+      requestOptions
+    );
+    const node = folderNodeOf(folder);
+    this.folders.setNode(folderId, node);
+    return node;
   }
 
   /**
@@ -115,59 +464,386 @@ export class GoogleDriveClient extends GoogleApiClient {
    *
    * @param fileId - The file ID
    * @param options - Options for fields to include
-   * @returns File metadata
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns File metadata, narrowed to the selected fields when a field
+   *   mask is given
+   *
+   * @example
+   * const file = await drive.getFile(id, {
+   *   fields: ['id', 'name', { owners: ['displayName', 'emailAddress'] }],
+   * });
+   * // file: { id: string; name: string; owners?: { displayName: string; emailAddress?: string }[] }
    */
+  getFile<const M extends FieldMask<DriveFile>>(
+    fileId: string,
+    options: GetFileOptions & { fields: M },
+    requestOptions?: RequestOptions
+  ): Promise<SelectFields<DriveFile, M>>;
+  getFile(
+    fileId: string,
+    options?: GetFileOptions,
+    requestOptions?: RequestOptions
+  ): Promise<DriveFile>;
   async getFile(
     fileId: string,
-    options: GetFileOptions = {}
+    options: GetFileOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<DriveFile> {
-    const params: Record<string, string> = {};
-
-    if (options.fields) {
-      params.fields = options.fields;
-    } else {
-      params.fields = DETAILED_FILE_FIELDS;
-    }
+    const { fields, schema } = selectFileFields(
+      options.fields ?? DETAILED_FILE_FIELDS
+    );
 
-    return this.get<DriveFile>(`/files/${encodeURIComponent(fileId)}`, params);
+    return this.get<DriveFile>(
+      `/files/${encodeURIComponent(fileId)}`,
+      { fields },
+      this.withCacheTtl('getFile', requestOptions),
+      schema
+    );
   }
 
   /**
    * Download a file's content
    *
+   * Google Workspace files have no content of their own; use exportFile.
+   *
    * @param fileId - The file ID
+   * @param requestOptions - Cancellation signal and timeout
    * @returns File content as Blob
    */
-  async downloadFile(fileId: string): Promise<Blob> {
-    // For binary content, we need to use a different approach
-    await this.rateLimiter.acquire();
+  async downloadFile(
+    fileId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<Blob> {
+    const response = await this.fetchMedia(fileId, {}, requestOptions);
+    return response.blob();
+  }
 
-    const url = `${this.baseUrl}/files/${encodeURIComponent(fileId)}?alt=media`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${this.accessToken}`,
-      },
-    });
+  /**
+   * Stream a file's content
+   *
+   * Progress is reported from the response's Content-Length (or
+   * Content-Range for partial downloads). If Drive ignores the byte range
+   * and sends the whole file, the bytes outside the range are dropped, so
+   * the stream always starts at `start`. Aborting the request signal also
+   * stops a stream that is being read; the timeout only covers the wait
+   * for the response.
+   *
+   * @param fileId - The file ID
+   * @param options - Byte range, abuse acknowledgement and progress callback
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns Stream of the requested bytes
+   *
+   * @example
+   * // Resume after receiving the first `saved` bytes
+   * const stream = await drive.downloadFileStream(fileId, { start: saved });
+   */
+  async downloadFileStream(
+    fileId: string,
+    options: DownloadOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { start = 0, end } = options;
+    let response = await this.fetchMedia(fileId, options, requestOptions);
+    if ((start > 0 || end !== undefined) && response.status !== 206) {
+      response = sliceResponse(response, start, end);
+    }
+    return streamWithProgress(
+      response,
+      start,
+      options.onProgress,
+      requestOptions.signal
+    );
+  }
 
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(
-        `Failed to download file: ${String(response.status)} - ${body}`
+  /**
+   * Export a Google Workspace file (Docs, Sheets, Slides, Drawings, Apps
+   * Script) to a standard format
+   *
+   * Fails before downloading if the file isn't a Workspace file or can't
+   * be exported to the format (see EXPORT_FORMATS). Drive limits exports
+   * to 10 MB.
+   *
+   * @param fileId - The file ID
+   * @param targetMimeType - Format to export to
+   * @param options - The file's MIME type, if known (saves a metadata
+   *   request), and a progress callback
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns Stream of the exported content
+   * @throws UnsupportedExportError if the format isn't supported
+   *
+   * @example
+   * const pdf = await drive.exportFile(docId, 'application/pdf');
+   * const blob = await new Response(pdf).blob();
+   */
+  async exportFile(
+    fileId: string,
+    targetMimeType: ExportMimeType,
+    options: ExportOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const sourceMimeType =
+      options.sourceMimeType ??
+      (await this.getFile(fileId, { fields: ['mimeType'] }, requestOptions))
+        .mimeType;
+    const supported: readonly string[] = Object.hasOwn(
+      EXPORT_FORMATS,
+      sourceMimeType
+    )
+      ? EXPORT_FORMATS[sourceMimeType as ExportableMimeType]
+      : [];
+    if (!supported.includes(targetMimeType)) {
+      throw new UnsupportedExportError(
+        sourceMimeType,
+        targetMimeType,
+        supported
       );
     }
 
-    this.rateLimiter.resetBackoff();
-    return response.blob();
+    const params = new URLSearchParams({ mimeType: targetMimeType });
+    const response = await this.sendRequest(
+      `${this.baseUrl}/files/${encodeURIComponent(fileId)}/export?${params.toString()}`,
+      { method: 'GET' },
+      requestOptions
+    );
+    return streamWithProgress(
+      response,
+      0,
+      options.onProgress,
+      requestOptions.signal
+    );
+  }
+
+  /**
+   * Request a file's content through the rate limiter and retry policy
+   */
+  private fetchMedia(
+    fileId: string,
+    options: DownloadOptions,
+    requestOptions: RequestOptions
+  ): Promise<Response> {
+    const params = new URLSearchParams({ alt: 'media' });
+    if (options.acknowledgeAbuse) params.set('acknowledgeAbuse', 'true');
+
+    const headers: Record<string, string> = {};
+    if (options.start !== undefined || options.end !== undefined) {
+      headers.Range = `bytes=${String(options.start ?? 0)}-${
+        options.end === undefined ? '' : String(options.end)
+      }`;
+    }
+
+    return this.sendRequest(
+      `${this.baseUrl}/files/${encodeURIComponent(fileId)}?${params.toString()}`,
+      { method: 'GET', headers },
+      requestOptions
+    );
   }
 
   /**
    * Create a new file with metadata (no content)
    *
    * @param metadata - File metadata
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns Created file
+   */
+  async createFile(
+    metadata: FileMetadata,
+    requestOptions: RequestOptions = {}
+  ): Promise<DriveFile> {
+    return this.post<DriveFile>(
+      '/files',
+      metadata,
+      this.withCost('createFile', requestOptions),
+      driveFileSchema
+    );
+  }
+
+  /**
+   * Upload a new file with content
+   *
+   * Resumable uploads are sent in chunks; after a network failure or
+   * server error they ask Drive how much it received and continue from
+   * there, giving up after the retry policy's maximum attempts without
+   * progress. Every request goes through the client's rate limiter and
+   * retry policy.
+   *
+   * The client's default timeout doesn't apply: a per-request timeout
+   * would cut off large chunks on slow connections. Pass `timeoutMs` to
+   * bound the whole upload instead.
+   *
+   * @param content - File content; strings are sent as `text/plain`
+   *   unless `metadata.mimeType` says otherwise
+   * @param metadata - File metadata (ignored in `media` mode)
+   * @param options - Upload mode, chunk size and progress callback
+   * @param requestOptions - Cancellation signal and a timeout for the
+   *   whole upload (default: none)
    * @returns Created file
+   *
+   * @example
+   * const csv = new Blob([rows.join('\n')], { type: 'text/csv' });
+   * await drive.uploadFile(csv, { name: 'report.csv', parents: [folderId] });
    */
-  async createFile(metadata: FileMetadata): Promise<DriveFile> {
-    return this.post<DriveFile>('/files', metadata);
+  async uploadFile(
+    content: Blob | string,
+    metadata: FileMetadata = {},
+    options: UploadOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<DriveFile> {
+    const blob =
+      typeof content === 'string'
+        ? new Blob([content], { type: metadata.mimeType ?? 'text/plain' })
+        : content;
+    const contentType = blob.type || 'application/octet-stream';
+    const mode =
+      options.mode ??
+      (blob.size > RESUMABLE_UPLOAD_THRESHOLD ? 'resumable' : 'multipart');
+
+    const { signal, cleanup } = createRequestSignal(
+      { signal: requestOptions.signal, timeoutMs: requestOptions.timeoutMs },
+      this.clock
+    );
+    const callOptions = this.withCost('uploadFile', {
+      ...requestOptions,
+      signal,
+      timeoutMs: undefined,
+    });
+    const url = `${UPLOAD_ENDPOINTS.drive ?? ''}/files`;
+
+    try {
+      let file: DriveFile;
+      if (mode === 'resumable') {
+        file = await this.uploadResumable(
+          url,
+          blob,
+          contentType,
+          metadata,
+          options,
+          callOptions
+        );
+      } else {
+        const boundary = createBoundary('upload');
+        const response = await this.sendRequest(
+          `${url}?uploadType=${mode}`,
+          mode === 'media'
+            ? {
+                method: 'POST',
+                headers: { 'Content-Type': contentType },
+                body: blob,
+              }
+            : {
+                method: 'POST',
+                headers: {
+                  'Content-Type': `multipart/related; boundary=${boundary}`,
+                },
+                body: buildMultipartBody(metadata, blob, contentType, boundary),
+              },
+          callOptions,
+          { timeout: false }
+        );
+        file = (await response.json()) as DriveFile;
+        options.onProgress?.({
+          bytesUploaded: blob.size,
+          totalBytes: blob.size,
+        });
+      }
+      return this.validateResponse(file, driveFileSchema, url, 'POST');
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Upload content through a resumable session
+   */
+  private async uploadResumable(
+    url: string,
+    blob: Blob,
+    contentType: string,
+    metadata: FileMetadata,
+    options: UploadOptions,
+    callOptions: RequestOptions
+  ): Promise<DriveFile> {
+    const totalBytes = blob.size;
+    const start = await this.sendRequest(
+      `${url}?uploadType=resumable`,
+      {
+        method: 'POST',
+        headers: {
+          'X-Upload-Content-Type': contentType,
+          'X-Upload-Content-Length': String(totalBytes),
+        },
+        body: JSON.stringify(metadata),
+      },
+      callOptions,
+      { timeout: false }
+    );
+    const sessionUrl = start.headers.get('Location');
+    if (!sessionUrl) {
+      throw new GoogleApiError(
+        start.status,
+        'Resumable upload did not return a session URL',
+        this.apiType
+      );
+    }
+
+    const chunkSize = resumableChunkSize(options.chunkSize);
+    // Chunks cost the default single token
+    const chunkOptions: RequestOptions = {
+      signal: callOptions.signal,
+      priority: callOptions.priority,
+    };
+    let offset = 0;
+    let failures = 0;
+    let resuming = false;
+
+    for (;;) {
+      const end = resuming ? offset : Math.min(offset + chunkSize, totalBytes);
+      let response: Response;
+      try {
+        // An empty range asks how much of the content Drive has received
+        response = await this.sendRequest(
+          sessionUrl,
+          {
+            method: 'PUT',
+            headers: {
+              'Content-Type': contentType,
+              'Content-Range': contentRange(offset, end, totalBytes),
+            },
+            body: end > offset ? blob.slice(offset, end) : undefined,
+          },
+          chunkOptions,
+          // Failed chunks are resumed below rather than resent blindly
+          { timeout: false, retry: false }
+        );
+      } catch (error) {
+        const interrupted =
+          !(error instanceof GoogleApiError) ||
+          error instanceof RateLimitError ||
+          error.status >= 500;
+        failures += 1;
+        if (!interrupted || failures >= this.retryPolicy.maxAttempts) {
+          throw error;
+        }
+        await this.rateLimiter.backoff(
+          error instanceof RateLimitError ? error.retryAfterMs : undefined,
+          { attempt: failures, signal: callOptions.signal }
+        );
+        resuming = true;
+        continue;
+      }
+
+      if (response.status !== HTTP_STATUS.RESUME_INCOMPLETE) {
+        options.onProgress?.({ bytesUploaded: totalBytes, totalBytes });
+        return (await response.json()) as DriveFile;
+      }
+
+      const received = parseUploadOffset(response.headers.get('Range'));
+      if (received > offset) {
+        failures = 0;
+      }
+      offset = received;
+      resuming = false;
+      options.onProgress?.({ bytesUploaded: offset, totalBytes });
+    }
   }
 
   /**
@@ -175,12 +851,19 @@ export class GoogleDriveClient extends GoogleApiClient {
    *
    * @param fileId - The file ID
    * @param metadata - Metadata to update
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Updated file
    */
-  async updateFile(fileId: string, metadata: FileMetadata): Promise<DriveFile> {
+  async updateFile(
+    fileId: string,
+    metadata: FileMetadata,
+    requestOptions: RequestOptions = {}
+  ): Promise<DriveFile> {
     return this.patch<DriveFile>(
       `/files/${encodeURIComponent(fileId)}`,
-      metadata
+      metadata,
+      this.withCost('updateFile', requestOptions),
+      driveFileSchema
     );
   }
 
@@ -188,9 +871,16 @@ export class GoogleDriveClient extends GoogleApiClient {
    * Delete a file (moves to trash by default)
    *
    * @param fileId - The file ID
+   * @param requestOptions - Cancellation signal and timeout
    */
-  async deleteFile(fileId: string): Promise<void> {
-    await this.delete<undefined>(`/files/${encodeURIComponent(fileId)}`);
+  async deleteFile(
+    fileId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
+    await this.delete<undefined>(
+      `/files/${encodeURIComponent(fileId)}`,
+      this.withCost('deleteFile', requestOptions)
+    );
   }
 
   /**
@@ -198,12 +888,19 @@ export class GoogleDriveClient extends GoogleApiClient {
    *
    * @param fileId - The file ID
    * @param permission - Permission to create
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Created permission
    */
-  async shareFile(fileId: string, permission: Permission): Promise<Permission> {
+  async shareFile(
+    fileId: string,
+    permission: Permission,
+    requestOptions: RequestOptions = {}
+  ): Promise<Permission> {
     return this.post<Permission>(
       `/files/${encodeURIComponent(fileId)}/permissions`,
-      permission
+      permission,
+      this.withCost('shareFile', requestOptions),
+      permissionSchema
     );
   }
 
@@ -211,23 +908,282 @@ export class GoogleDriveClient extends GoogleApiClient {
    * List permissions for a file
    *
    * @param fileId - The file ID
+   * @param requestOptions - Cancellation signal and timeout
    * @returns List of permissions
    */
-  async listPermissions(fileId: string): Promise<Permission[]> {
-    const response = await this.get<{ permissions: Permission[] }>(
-      `/files/${encodeURIComponent(fileId)}/permissions`
+  async listPermissions(
+    fileId: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<Permission[]> {
+    const response = await this.get<PermissionListResponse>(
+      `/files/${encodeURIComponent(fileId)}/permissions`,
+      undefined,
+      this.withCacheTtl('listPermissions', requestOptions),
+      permissionListResponseSchema
     );
     return response.permissions;
   }
 
+  /**
+   * Iterate over a file's permissions, fetching pages lazily
+   *
+   * @param fileId - The file ID
+   * @param paginateOptions - Start token, item cap, cancellation and timeout
+   * @returns Paginator over the file's permissions
+   */
+  iteratePermissions(
+    fileId: string,
+    paginateOptions: PaginateOptions = {}
+  ): Paginator<Permission> {
+    return this.paginate(async (pageToken, requestOptions) => {
+      const params: Record<string, string> = { pageSize: '100' };
+      if (pageToken) params.pageToken = pageToken;
+
+      const response = await this.get<PermissionListResponse>(
+        `/files/${encodeURIComponent(fileId)}/permissions`,
+        params,
+        this.withCacheTtl('listPermissions', requestOptions),
+        permissionListResponseSchema
+      );
+      return {
+        items: response.permissions,
+        nextPageToken: response.nextPageToken,
+      };
+    }, paginateOptions);
+  }
+
+  /**
+   * Get the token for the current end of the change log
+   *
+   * Pass it to listChanges later to receive the changes made after now.
+   *
+   * @param options - Shared drive to follow
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns Start page token
+   */
+  async getStartPageToken(
+    options: StartPageTokenOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<string> {
+    const params: Record<string, string> = {};
+    if (options.driveId) params.driveId = options.driveId;
+    if (options.supportsAllDrives !== undefined) {
+      params.supportsAllDrives = String(options.supportsAllDrives);
+    }
+
+    const response = await this.get<{ startPageToken: string }>(
+      '/changes/startPageToken',
+      params,
+      requestOptions,
+      startPageTokenSchema
+    );
+    return response.startPageToken;
+  }
+
+  /**
+   * List one page of changes from a page token
+   *
+   * Changes are never cached. Continue with `nextPageToken` until the
+   * response carries `newStartPageToken`, then keep that for the next
+   * poll. See DriveChangeSync for a helper that does this and persists
+   * the token.
+   *
+   * @param pageToken - Token from getStartPageToken or a previous page
+   * @param options - Page size, file fields and shared drive options
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns One page of changes
+   */
+  async listChanges(
+    pageToken: string,
+    options: ChangeListOptions = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ChangeListResponse> {
+    const { fields, schema } = selectFileFields(
+      options.fields ?? DEFAULT_CHANGE_FILE_FIELDS
+    );
+    const params: Record<string, string> = {
+      pageToken,
+      fields: `nextPageToken,newStartPageToken,changes(changeType,time,removed,fileId,driveId,file(${fields}))`,
+    };
+
+    if (options.pageSize) params.pageSize = String(options.pageSize);
+    if (options.driveId) params.driveId = options.driveId;
+    if (options.includeRemoved !== undefined) {
+      params.includeRemoved = String(options.includeRemoved);
+    }
+    if (options.restrictToMyDrive !== undefined) {
+      params.restrictToMyDrive = String(options.restrictToMyDrive);
+    }
+    if (options.supportsAllDrives !== undefined) {
+      params.supportsAllDrives = String(options.supportsAllDrives);
+    }
+    const includeItemsFromAllDrives =
+      options.includeItemsFromAllDrives ?? options.supportsAllDrives;
+    if (includeItemsFromAllDrives !== undefined) {
+      params.includeItemsFromAllDrives = String(includeItemsFromAllDrives);
+    }
+
+    return this.get<ChangeListResponse>(
+      '/changes',
+      params,
+      requestOptions,
+      changeListSchema(schema)
+    );
+  }
+
   /**
    * Get information about the current user's Drive
    *
+   * @param requestOptions - Cancellation signal and timeout
    * @returns About information including storage quota
    */
-  async getAbout(): Promise<AboutInfo> {
-    return this.get<AboutInfo>('/about', {
-      fields: 'user,storageQuota',
-    });
+  async getAbout(requestOptions: RequestOptions = {}): Promise<AboutInfo> {
+    return this.get<AboutInfo>(
+      '/about',
+      {
+        fields: 'user,storageQuota',
+      },
+      this.withCacheTtl('getAbout', requestOptions),
+      aboutInfoSchema
+    );
+  }
+}
+
+/**
+ * Resolve a file field selection to its `fields` string and schema
+ *
+ * Both field masks and `fields` strings narrow the schema to the
+ * selected fields, so partial responses pass strict validation.
+ */
+function selectFileFields(selection: string | FieldMask<DriveFile>): {
+  fields: string;
+  schema: Schema<DriveFile>;
+} {
+  if (typeof selection === 'string') {
+    return {
+      fields: selection,
+      schema: selectSchemaByFields(driveFileSchema, selection),
+    };
+  }
+  return {
+    fields: buildFieldMask(selection),
+    schema: selectSchema(driveFileSchema, selection) as Schema<DriveFile>,
+  };
+}
+
+/**
+ * ID of the folder a file is or, for a shortcut to a folder, points to
+ */
+function folderIdOf(
+  file: DriveFile,
+  followShortcuts: boolean
+): string | undefined {
+  if (file.mimeType === GOOGLE_MIME_TYPES.FOLDER) {
+    return file.id;
+  }
+  const target = file.shortcutDetails;
+  return followShortcuts && target?.targetMimeType === GOOGLE_MIME_TYPES.FOLDER
+    ? target.targetId
+    : undefined;
+}
+
+function folderNodeOf(folder: Pick<DriveFile, 'name' | 'parents'>): FolderNode {
+  return { name: folder.name, parents: folder.parents };
+}
+
+/**
+ * List options that include shared drive items
+ */
+function sharedDriveOptions(
+  supportsAllDrives?: boolean
+): Omit<FileListOptions, 'pageToken'> {
+  return supportsAllDrives
+    ? { supportsAllDrives, includeItemsFromAllDrives: true }
+    : {};
+}
+
+/**
+ * Pass a media response's body through, reporting progress and erroring
+ * the stream if the signal aborts while it is being read
+ */
+function streamWithProgress(
+  response: Response,
+  start: number,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const totalBytes = totalBytesOf(response, start);
+  let bytesReceived = start;
+  let progress: TransformStreamDefaultController<Uint8Array> | undefined;
+  const onAbort = () => {
+    if (signal) progress?.error(toAbortError(signal));
+  };
+
+  return (response.body ?? new Blob().stream()).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start: (controller) => {
+        progress = controller;
+        signal?.addEventListener('abort', onAbort, { once: true });
+      },
+      transform: (chunk, controller) => {
+        bytesReceived += chunk.byteLength;
+        onProgress?.({ bytesReceived, totalBytes });
+        controller.enqueue(chunk);
+      },
+      flush: () => {
+        signal?.removeEventListener('abort', onAbort);
+      },
+    })
+  );
+}
+
+/**
+ * Size of the whole file from a media response, if reported
+ *
+ * Partial (206) responses carry it in Content-Range; full responses in
+ * Content-Length.
+ */
+/**
+ * Cut a full-content response down to the bytes from `start` to `end`
+ * (inclusive), as if the server had honoured the Range header
+ */
+function sliceResponse(
+  response: Response,
+  start: number,
+  end?: number
+): Response {
+  let position = 0;
+  const body = (response.body ?? new Blob().stream()).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        const chunkStart = position;
+        position += chunk.byteLength;
+        const part = chunk.subarray(
+          Math.max(0, start - chunkStart),
+          end === undefined ? undefined : Math.max(0, end + 1 - chunkStart)
+        );
+        if (part.byteLength > 0) controller.enqueue(part);
+      },
+    })
+  );
+
+  const headers = new Headers();
+  const length = response.headers.get('Content-Length');
+  if (length !== null) {
+    const last = Math.min(end ?? Infinity, parseInt(length, 10) - 1);
+    headers.set(
+      'Content-Range',
+      `bytes ${String(start)}-${String(last)}/${length}`
+    );
+  }
+  return new Response(body, { status: 206, headers });
+}
+
+function totalBytesOf(response: Response, start: number): number | undefined {
+  const range = response.headers.get('Content-Range')?.match(/\/(\d+)$/);
+  if (range?.[1]) {
+    return parseInt(range[1], 10);
   }
+  const length = response.headers.get('Content-Length');
+  return length === null ? undefined : start + parseInt(length, 10);
 }
@@ -0,0 +1,131 @@
+/**
+ * Google Drive API Response Schemas
+ *
+ * Runtime schemas for the response types in `./types`, used when the
+ * client's validation mode is `warn` or `strict`.
+ */
+
+import {
+  array,
+  boolean,
+  literal,
+  object,
+  optional,
+  string,
+  type ObjectSchema,
+  type Schema,
+} from '../schema';
+import type {
+  AboutInfo,
+  ChangeListResponse,
+  DriveChange,
+  DriveFile,
+  DriveUser,
+  FileListResponse,
+  Permission,
+  PermissionListResponse,
+  ShortcutDetails,
+} from './types';
+
+export const driveUserSchema = object<DriveUser>({
+  displayName: string(),
+  emailAddress: optional(string()),
+  photoLink: optional(string()),
+});
+
+export const driveFileSchema = object<DriveFile>({
+  id: string(),
+  name: string(),
+  mimeType: string(),
+  modifiedTime: optional(string()),
+  createdTime: optional(string()),
+  size: optional(string()),
+  webViewLink: optional(string()),
+  webContentLink: optional(string()),
+  iconLink: optional(string()),
+  thumbnailLink: optional(string()),
+  starred: optional(boolean()),
+  trashed: optional(boolean()),
+  parents: optional(array(string())),
+  description: optional(string()),
+  owners: optional(array(driveUserSchema)),
+  lastModifyingUser: optional(driveUserSchema),
+  shortcutDetails: optional(
+    object<ShortcutDetails>({
+      targetId: string(),
+      targetMimeType: optional(string()),
+    })
+  ),
+});
+
+/**
+ * Schema for a files.list response whose files match the given schema
+ */
+export function fileListSchema<F>(
+  file: Schema<F>
+): ObjectSchema<FileListResponse<F>> {
+  return object<FileListResponse<F>>({
+    files: array(file),
+    nextPageToken: optional(string()),
+    incompleteSearch: optional(boolean()),
+  });
+}
+
+export const fileListResponseSchema = fileListSchema(driveFileSchema);
+
+export const permissionSchema = object<Permission>({
+  id: optional(string()),
+  type: literal('user', 'group', 'domain', 'anyone'),
+  role: literal(
+    'owner',
+    'organizer',
+    'fileOrganizer',
+    'writer',
+    'commenter',
+    'reader'
+  ),
+  emailAddress: optional(string()),
+  domain: optional(string()),
+  allowFileDiscovery: optional(boolean()),
+});
+
+export const permissionListResponseSchema = object<PermissionListResponse>({
+  permissions: array(permissionSchema),
+  nextPageToken: optional(string()),
+});
+
+export const aboutInfoSchema = object<AboutInfo>({
+  user: driveUserSchema,
+  storageQuota: object<AboutInfo['storageQuota']>({
+    limit: optional(string()),
+    usage: optional(string()),
+    usageInDrive: optional(string()),
+    usageInDriveTrash: optional(string()),
+  }),
+});
+
+/**
+ * Schema for a changes.list response whose files match the given schema
+ */
+export function changeListSchema(
+  file: Schema<DriveFile>
+): ObjectSchema<ChangeListResponse> {
+  return object<ChangeListResponse>({
+    changes: array(
+      object<DriveChange>({
+        changeType: literal('file', 'drive'),
+        time: optional(string()),
+        removed: optional(boolean()),
+        fileId: optional(string()),
+        file: optional(file),
+        driveId: optional(string()),
+      })
+    ),
+    nextPageToken: optional(string()),
+    newStartPageToken: optional(string()),
+  });
+}
+
+export const startPageTokenSchema = object<{ startPageToken: string }>({
+  startPageToken: string(),
+});
@@ -0,0 +1,263 @@
+/**
+ * Drive Folder Tree Tests
+ *
+ * Tests for listing folder children, walking folder trees, and resolving
+ * paths to files and back, including shortcuts and files with several
+ * parents.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleDriveClient } from '.';
+import { GOOGLE_MIME_TYPES } from '../constants';
+import { NotFoundError } from '../types';
+import { ManualClock } from '../clock';
+import {
+  FolderCache,
+  mapWithConcurrency,
+  quoteQueryValue,
+  splitPath,
+} from './tree';
+import type { DriveFile } from './types';
+
+const { FOLDER, SHORTCUT } = GOOGLE_MIME_TYPES;
+
+/**
+ * My Drive
+ * ├── Reports/
+ * │   ├── 2026/
+ * │   │   └── Q3.xlsx
+ * │   ├── Archive (shortcut to /Archive)
+ * │   └── shared.txt
+ * └── Archive/
+ *     ├── Reports (shortcut back to /Reports)
+ *     └── shared.txt (same file as /Reports/shared.txt)
+ */
+const FILES: DriveFile[] = [
+  { id: 'root', name: 'My Drive', mimeType: FOLDER },
+  { id: 'reports', name: 'Reports', mimeType: FOLDER, parents: ['root'] },
+  { id: 'y2026', name: '2026', mimeType: FOLDER, parents: ['reports'] },
+  { id: 'q3', name: 'Q3.xlsx', mimeType: 'xlsx', parents: ['y2026'] },
+  {
+    id: 'to-archive',
+    name: 'Archive',
+    mimeType: SHORTCUT,
+    parents: ['reports'],
+    shortcutDetails: { targetId: 'archive', targetMimeType: FOLDER },
+  },
+  {
+    id: 'shared',
+    name: 'shared.txt',
+    mimeType: 'text/plain',
+    parents: ['reports', 'archive'],
+  },
+  { id: 'archive', name: 'Archive', mimeType: FOLDER, parents: ['root'] },
+  {
+    id: 'to-reports',
+    name: 'Reports',
+    mimeType: SHORTCUT,
+    parents: ['archive'],
+    shortcutDetails: { targetId: 'reports', targetMimeType: FOLDER },
+  },
+];
+
+/**
+ * Fetch mock answering files.get and the queries built by listChildren
+ */
+function fakeDrive() {
+  const fetchMock = vi.fn<typeof fetch>((input) => {
+    const url = new URL(input as string);
+    const id = /\/files\/([^/]+)$/.exec(url.pathname)?.[1];
+    if (id) {
+      const file = FILES.find((candidate) => candidate.id === id);
+      return Promise.resolve(
+        file
+          ? new Response(JSON.stringify(file))
+          : new Response(
+              JSON.stringify({ error: { code: 404, message: 'Not found' } }),
+              { status: 404 }
+            )
+      );
+    }
+
+    const q = url.searchParams.get('q') ?? '';
+    const parent = /^'([^']+)' in parents/.exec(q)?.[1];
+    const name = /name='([^']*)'/.exec(q)?.[1];
+    const foldersOnly = q.includes('mimeType=');
+    const files = FILES.filter(
+      (file) =>
+        file.parents?.includes(parent ?? '') &&
+        (name === undefined || file.name === name) &&
+        (!foldersOnly || file.mimeType === FOLDER || file.mimeType === SHORTCUT)
+    );
+    return Promise.resolve(new Response(JSON.stringify({ files })));
+  });
+  const drive = new GoogleDriveClient({
+    accessToken: 'token',
+    dedupe: false,
+    fetch: fetchMock,
+  });
+  return { fetchMock, drive };
+}
+
+describe('tree helpers', () => {
+  it('should quote query values', () => {
+    expect(quoteQueryValue("Bob's \\ notes")).toBe("'Bob\\'s \\\\ notes'");
+  });
+
+  it('should split paths into names', () => {
+    expect(splitPath('/Reports//2026/')).toEqual(['Reports', '2026']);
+  });
+
+  it('should run tasks in order with bounded concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await Promise.resolve();
+      running -= 1;
+      return n * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+  });
+
+  it('should stop taking items after a failure and wait for started calls', async () => {
+    const started: number[] = [];
+    let settled = 0;
+    const run = mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      started.push(n);
+      if (n === 1) {
+        throw new Error('failed 1');
+      }
+      await Promise.resolve();
+      await Promise.resolve();
+      settled += 1;
+      return n;
+    });
+
+    await expect(run).rejects.toThrow('failed 1');
+    expect(started).toEqual([1, 2]);
+    expect(settled).toBe(1);
+  });
+
+  it('should prune expired folders from the cache on write', async () => {
+    const clock = new ManualClock();
+    const cache = new FolderCache(clock, 1_000);
+    for (let i = 0; i < 50; i++) {
+      cache.setId('root', `/f${String(i)}`, `f${String(i)}`);
+      cache.setNode(`f${String(i)}`, { name: `f${String(i)}` });
+    }
+    await clock.advance(500);
+    cache.setNode('f0', { name: 'renamed' });
+
+    await clock.advance(600);
+    cache.setId('root', '/g', 'g');
+    cache.setNode('g', { name: 'g' });
+
+    expect(cache.size).toBe(3);
+    expect(cache.getNode('f0')).toEqual({ name: 'renamed' });
+    expect(cache.getId('root', '/f1')).toBeUndefined();
+  });
+});
+
+describe('GoogleDriveClient folder tree', () => {
+  it('should list a folder with its parent and shortcut fields', async () => {
+    const { fetchMock, drive } = fakeDrive();
+
+    const files = await drive.listChildren('reports');
+
+    expect(files.map(({ id }) => id)).toEqual([
+      'y2026',
+      'to-archive',
+      'shared',
+    ]);
+    const params = new URL(fetchMock.mock.calls[0]?.[0] as string).searchParams;
+    expect(params.get('q')).toBe("'reports' in parents and trashed=false");
+    expect(params.get('fields')).toContain('parents,shortcutDetails');
+  });
+
+  it('should walk each folder once, following shortcuts', async () => {
+    const { fetchMock, drive } = fakeDrive();
+
+    const entries = await drive.walkFolder('root');
+
+    expect(
+      entries.map(({ path, depth }) => `${String(depth)} ${path}`)
+    ).toEqual([
+      '1 /Reports',
+      '1 /Archive',
+      '2 /Reports/2026',
+      '2 /Reports/Archive',
+      '2 /Reports/shared.txt',
+      '2 /Archive/shared.txt',
+      '2 /Archive/Reports',
+      '3 /Reports/2026/Q3.xlsx',
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stop at the depth limit', async () => {
+    const { drive } = fakeDrive();
+
+    const entries = await drive.walkFolder('root', { maxDepth: 1 });
+
+    expect(entries.map(({ path }) => path)).toEqual(['/Reports', '/Archive']);
+  });
+
+  it('should not walk into shortcuts when told not to', async () => {
+    const { drive } = fakeDrive();
+
+    const entries = await drive.walkFolder('reports', {
+      followShortcuts: false,
+    });
+
+    expect(entries.map(({ path }) => path)).not.toContain(
+      '/Archive/shared.txt'
+    );
+  });
+
+  it('should resolve a path through shortcuts and cache its folders', async () => {
+    const { fetchMock, drive } = fakeDrive();
+
+    const file = await drive.resolvePath('/Reports/Archive/shared.txt');
+    expect(file.id).toBe('shared');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await drive.resolvePath('/Reports/Archive/Reports');
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+
+  it('should return the target of a final shortcut', async () => {
+    const { drive } = fakeDrive();
+
+    await expect(drive.resolvePath('/Reports/Archive')).resolves.toMatchObject({
+      id: 'archive',
+    });
+    await expect(
+      drive.resolvePath('/Reports/Archive', { followShortcuts: false })
+    ).resolves.toMatchObject({ id: 'to-archive' });
+  });
+
+  it('should report the missing part of a path', async () => {
+    const { drive } = fakeDrive();
+
+    await expect(
+      drive.resolvePath('/Reports/2025/Q3.xlsx')
+    ).rejects.toBeInstanceOf(NotFoundError);
+    await expect(drive.resolvePath('/Reports/2026/Q4.xlsx')).rejects.toThrow(
+      '/Reports/2026/Q4.xlsx'
+    );
+  });
+
+  it('should build a path from the top folder', async () => {
+    const { fetchMock, drive } = fakeDrive();
+
+    await expect(drive.getPath('q3')).resolves.toBe('/Reports/2026/Q3.xlsx');
+    await expect(drive.getPath('shared')).resolves.toBe('/Reports/shared.txt');
+
+    // The second lookup found Reports and My Drive in the folder cache
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Drive Folder Tree Helpers
+ *
+ * Path parsing, query escaping and the folder cache used to navigate the
+ * Drive hierarchy.
+ *
+ * Paths are `/`-separated file names, so names containing `/` can't be
+ * addressed by path. Drive allows several files with the same name in a
+ * folder; resolving such a path picks one of them.
+ */
+
+import type { Clock } from '../clock';
+
+/** How long resolved folders are remembered */
+export const FOLDER_CACHE_TTL_MS = 5 * 60_000;
+
+/**
+ * Split a path into file names, ignoring empty segments
+ */
+export function splitPath(path: string): string[] {
+  return path.split('/').filter((name) => name.length > 0);
+}
+
+/**
+ * Join file names into an absolute path
+ */
+export function joinPath(names: readonly string[]): string {
+  return `/${names.join('/')}`;
+}
+
+/**
+ * Quote a value for a Drive query string
+ *
+ * @see https://developers.google.com/drive/api/guides/ref-search-terms
+ */
+export function quoteQueryValue(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Run `task` over every item with at most `concurrency` calls in flight
+ *
+ * Results keep the order of `items`. After the first failure no new calls
+ * start; the run rejects with that failure once the calls already started
+ * have settled.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const outcomes = await Promise.allSettled(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker
+    )
+  );
+  for (const outcome of outcomes) {
+    if (outcome.status === 'rejected') {
+      throw outcome.reason;
+    }
+  }
+  return results;
+}
+
+/**
+ * A folder's place in the hierarchy
+ */
+export interface FolderNode {
+  name: string;
+  parents?: string[];
+}
+
+/**
+ * Folder IDs by path, and folder names and parents by ID, for a limited
+ * time so renames and moves are picked up
+ *
+ * Entries are kept in expiry order, so each write drops the expired ones
+ * from the front and the cache can't grow with folders never read again.
+ */
+export class FolderCache {
+  private readonly clock: Clock;
+  private readonly ttlMs: number;
+  private readonly ids = new Map<string, { id: string; expiresAt: number }>();
+  private readonly nodes = new Map<
+    string,
+    { node: FolderNode; expiresAt: number }
+  >();
+
+  constructor(clock: Clock, ttlMs = FOLDER_CACHE_TTL_MS) {
+    this.clock = clock;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * ID of the folder at a path below a root folder
+   */
+  getId(rootId: string, path: string): string | undefined {
+    const key = `${rootId}:${path}`;
+    const entry = this.ids.get(key);
+    if (entry && entry.expiresAt > this.clock.now()) {
+      return entry.id;
+    }
+    this.ids.delete(key);
+    return undefined;
+  }
+
+  setId(rootId: string, path: string, id: string): void {
+    const key = `${rootId}:${path}`;
+    const now = this.clock.now();
+    pruneExpired(this.ids, now);
+    this.ids.delete(key);
+    this.ids.set(key, { id, expiresAt: now + this.ttlMs });
+  }
+
+  /**
+   * Name and parents of a folder
+   */
+  getNode(id: string): FolderNode | undefined {
+    const entry = this.nodes.get(id);
+    if (entry && entry.expiresAt > this.clock.now()) {
+      return entry.node;
+    }
+    this.nodes.delete(id);
+    return undefined;
+  }
+
+  setNode(id: string, node: FolderNode): void {
+    const now = this.clock.now();
+    pruneExpired(this.nodes, now);
+    this.nodes.delete(id);
+    this.nodes.set(id, { node, expiresAt: now + this.ttlMs });
+  }
+
+  /**
+   * Number of cached paths and folders, including any not yet pruned
+   */
+  get size(): number {
+    return this.ids.size + this.nodes.size;
+  }
+
+  clear(): void {
+    this.ids.clear();
+    this.nodes.clear();
+  }
+}
+
+/**
+ * Delete expired entries from the front of a map kept in expiry order
+ */
+function pruneExpired(
+  entries: Map<string, { expiresAt: number }>,
+  now: number
+): void {
+  for (const [key, { expiresAt }] of entries) {
+    if (expiresAt > now) return;
+    entries.delete(key);
+  }
+}
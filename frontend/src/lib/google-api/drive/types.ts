@@ -5,6 +5,8 @@
  * @see https://developers.google.com/drive/api/v3/reference
  */
 
+import type { FieldMask } from '../fields';
+
 /**
  * Drive file metadata
  */
@@ -41,6 +43,18 @@ export interface DriveFile {
   owners?: DriveUser[];
   /** The last user to modify the file */
   lastModifyingUser?: DriveUser;
+  /** Target of a shortcut (only for `GOOGLE_MIME_TYPES.SHORTCUT` files) */
+  shortcutDetails?: ShortcutDetails;
+}
+
+/**
+ * The file a shortcut points to
+ */
+export interface ShortcutDetails {
+  /** The ID of the target file */
+  targetId: string;
+  /** The MIME type of the target file */
+  targetMimeType?: string;
 }
 
 /**
@@ -82,8 +96,11 @@ export interface FileListOptions {
   q?: string;
   /** Ordering of results */
   orderBy?: string;
-  /** Fields to include in response (partial response) */
-  fields?: string;
+  /**
+   * Fields to include for each file (partial response). A field mask
+   * narrows the returned file type to the selected fields.
+   */
+  fields?: string | FieldMask<DriveFile>;
   /** Corpus of files to search */
   corpora?: 'user' | 'domain' | 'drive' | 'allDrives';
   /** Whether to include team drives */
@@ -94,23 +111,70 @@ export interface FileListOptions {
 
 /**
  * Response from files.list
+ *
+ * @typeParam F - File shape (narrowed when a field mask is used)
  */
-export interface FileListResponse {
-  files: DriveFile[];
+export interface FileListResponse<F = DriveFile> {
+  files: F[];
   nextPageToken?: string;
   incompleteSearch?: boolean;
 }
 
+/**
+ * Response from permissions.list
+ */
+export interface PermissionListResponse {
+  permissions: Permission[];
+  nextPageToken?: string;
+}
+
 /**
  * Options for getting a file
  */
 export interface GetFileOptions {
-  /** Fields to include in response */
-  fields?: string;
+  /**
+   * Fields to include in response. A field mask narrows the returned file
+   * type to the selected fields.
+   */
+  fields?: string | FieldMask<DriveFile>;
   /** Whether to acknowledge download risks */
   acknowledgeAbuse?: boolean;
 }
 
+/**
+ * Bytes received so far in a download
+ */
+export interface DownloadProgress {
+  /** Bytes of the file received, including any skipped with `start` */
+  bytesReceived: number;
+  /** File size, when the response reports it */
+  totalBytes?: number;
+}
+
+/**
+ * Options for downloading file content
+ */
+export interface DownloadOptions {
+  /** First byte to download, e.g. to resume a partial download */
+  start?: number;
+  /** Last byte to download, inclusive (default: end of file) */
+  end?: number;
+  /** Whether to acknowledge the risk of downloading flagged files */
+  acknowledgeAbuse?: boolean;
+  /** Called as content is received */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * Options for exporting a Google Workspace file
+ */
+export interface ExportOptions {
+  /** The file's MIME type, if already known */
+  sourceMimeType?: string;
+  /** Called as content is received */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
 /**
  * File metadata for creating/updating files
  */
@@ -122,6 +186,162 @@ export interface FileMetadata {
   starred?: boolean;
 }
 
+/**
+ * How file content is sent to Drive
+ *
+ * - `media`: content only, in one request (the file is named "Untitled")
+ * - `multipart`: metadata and content in one request
+ * - `resumable`: a session uploaded in chunks that survives network
+ *   failures; use for large files
+ */
+export type UploadMode = 'media' | 'multipart' | 'resumable';
+
+/**
+ * Bytes sent so far in an upload
+ */
+export interface UploadProgress {
+  bytesUploaded: number;
+  totalBytes: number;
+}
+
+/**
+ * Options for uploading file content
+ */
+export interface UploadOptions {
+  /**
+   * Upload mode (default: resumable above 5 MiB, multipart otherwise)
+   */
+  mode?: UploadMode;
+  /**
+   * Bytes per resumable chunk, rounded down to a multiple of 256 KiB
+   * (default: 8 MiB)
+   */
+  chunkSize?: number;
+  /** Called as content is accepted by Drive */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * A change to a file or shared drive, from changes.list
+ */
+export interface DriveChange {
+  /** Whether the change is to a file or to a shared drive */
+  changeType: 'file' | 'drive';
+  /** Time of the change (RFC 3339) */
+  time?: string;
+  /**
+   * Whether the file or shared drive was removed, i.e. deleted or no
+   * longer accessible to the user
+   */
+  removed?: boolean;
+  /** ID of the changed file */
+  fileId?: string;
+  /** The file's current state (absent if it was removed) */
+  file?: DriveFile;
+  /** ID of the changed shared drive */
+  driveId?: string;
+}
+
+/**
+ * Response from changes.list
+ *
+ * The last page carries `newStartPageToken` instead of `nextPageToken`.
+ */
+export interface ChangeListResponse {
+  changes: DriveChange[];
+  nextPageToken?: string;
+  newStartPageToken?: string;
+}
+
+/**
+ * Options for getting a start page token
+ */
+export interface StartPageTokenOptions {
+  /** Shared drive to follow instead of the user's changes */
+  driveId?: string;
+  /** Whether the application supports shared drives */
+  supportsAllDrives?: boolean;
+}
+
+/**
+ * Options for listing changes
+ */
+export interface ChangeListOptions extends StartPageTokenOptions {
+  /** Maximum number of changes to return per page (1-1000) */
+  pageSize?: number;
+  /** Fields to include for each changed file (partial response) */
+  fields?: string | FieldMask<DriveFile>;
+  /** Whether to include removed files (default: true) */
+  includeRemoved?: boolean;
+  /** Whether to skip changes outside My Drive (e.g. shared with me) */
+  restrictToMyDrive?: boolean;
+  /**
+   * Whether to include changes to shared drive items (default: the value
+   * of `supportsAllDrives`)
+   */
+  includeItemsFromAllDrives?: boolean;
+}
+
+/**
+ * File changes since the last sync, grouped by kind
+ *
+ * Each file appears once, in the group for its latest change.
+ */
+export interface DriveChangeSet {
+  /**
+   * True when there was no saved position to sync from. The groups are
+   * empty and the caller should list files in full; the next sync
+   * returns changes from this point.
+   */
+  reset: boolean;
+  /** Files created since the last sync */
+  added: DriveFile[];
+  /** Existing files whose metadata or content changed */
+  modified: DriveFile[];
+  /** Files moved to the trash */
+  trashed: DriveFile[];
+  /** IDs of files deleted or no longer accessible to the user */
+  removed: string[];
+}
+
+/**
+ * A file found while walking a folder tree
+ */
+export interface FolderTreeEntry {
+  /** The file (a shortcut is reported as itself, not its target) */
+  file: DriveFile;
+  /** Path from the walked folder, e.g. `/2026/Q3.xlsx` */
+  path: string;
+  /** 1 for the walked folder's children, 2 for theirs, and so on */
+  depth: number;
+}
+
+/**
+ * Options for walking a folder tree
+ */
+export interface WalkFolderOptions {
+  /** Deepest level to report (default: no limit) */
+  maxDepth?: number;
+  /** Folders listed at the same time (default: 4) */
+  concurrency?: number;
+  /** Whether to walk into folders that shortcuts point to (default: true) */
+  followShortcuts?: boolean;
+  /** Whether the application supports shared drives */
+  supportsAllDrives?: boolean;
+}
+
+/**
+ * Options for resolving a path
+ */
+export interface ResolvePathOptions {
+  /** Folder the path starts from (default: `root`, i.e. My Drive) */
+  rootId?: string;
+  /** Whether to return a final shortcut's target (default: true) */
+  followShortcuts?: boolean;
+  /** Whether the application supports shared drives */
+  supportsAllDrives?: boolean;
+}
+
 /**
  * About information for the current user
  */
@@ -145,4 +365,14 @@ export const DEFAULT_FILE_FIELDS =
  * Fields for detailed file information
  */
 export const DETAILED_FILE_FIELDS =
-  'id,name,mimeType,modifiedTime,createdTime,size,webViewLink,webContentLink,iconLink,thumbnailLink,starred,trashed,parents,description,owners,lastModifyingUser';
+  'id,name,mimeType,modifiedTime,createdTime,size,webViewLink,webContentLink,iconLink,thumbnailLink,starred,trashed,parents,description,owners,lastModifyingUser,shortcutDetails';
+
+/**
+ * Fields for navigating folders (parents and shortcut targets)
+ */
+export const TREE_FILE_FIELDS = `${DEFAULT_FILE_FIELDS},parents,shortcutDetails`;
+
+/**
+ * Default fields for changed files (enough to tell the kind of change)
+ */
+export const DEFAULT_CHANGE_FILE_FIELDS = `${DEFAULT_FILE_FIELDS},createdTime,trashed,parents`;
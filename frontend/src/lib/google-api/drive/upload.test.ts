@@ -0,0 +1,295 @@
+/**
+ * Drive Upload Tests
+ *
+ * Tests for simple, multipart and resumable uploads, including resuming a
+ * session after a network failure.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleDriveClient } from '.';
+import { ManualClock } from '../clock';
+import { RequestTimeoutError } from '../types';
+import {
+  contentRange,
+  parseUploadOffset,
+  resumableChunkSize,
+  UPLOAD_CHUNK_GRANULARITY,
+} from './upload';
+import type { UploadProgress } from './types';
+
+const SESSION_URL =
+  'https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&upload_id=s1';
+
+function createdFile(): Response {
+  return new Response(
+    JSON.stringify({ id: 'f1', name: 'report.csv', mimeType: 'text/csv' })
+  );
+}
+
+function sessionStarted(): Response {
+  return new Response(null, { headers: { Location: SESSION_URL } });
+}
+
+function resumeIncomplete(received: number): Response {
+  return new Response(null, {
+    status: 308,
+    headers: received ? { Range: `bytes=0-${String(received - 1)}` } : {},
+  });
+}
+
+function readText(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      resolve(reader.result as string);
+    };
+    reader.readAsText(blob);
+  });
+}
+
+function headersOf(init?: RequestInit): Record<string, string> {
+  return init?.headers as Record<string, string>;
+}
+
+describe('upload helpers', () => {
+  it('should round chunk sizes down to the upload granularity', () => {
+    expect(resumableChunkSize(UPLOAD_CHUNK_GRANULARITY * 2.5)).toBe(
+      UPLOAD_CHUNK_GRANULARITY * 2
+    );
+    expect(resumableChunkSize(1)).toBe(UPLOAD_CHUNK_GRANULARITY);
+  });
+
+  it('should format chunk and status ranges', () => {
+    expect(contentRange(0, 10, 25)).toBe('bytes 0-9/25');
+    expect(contentRange(10, 10, 25)).toBe('bytes */25');
+  });
+
+  it('should parse the received byte count', () => {
+    expect(parseUploadOffset('bytes=0-99')).toBe(100);
+    expect(parseUploadOffset(null)).toBe(0);
+  });
+});
+
+describe('GoogleDriveClient.uploadFile', () => {
+  it('should send metadata and content in one multipart request', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(createdFile()));
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+
+    const file = await drive.uploadFile(
+      new Blob(['a,b\n1,2'], { type: 'text/csv' }),
+      { name: 'report.csv', parents: ['folder'] }
+    );
+
+    expect(file.id).toBe('f1');
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toBe(
+      'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart'
+    );
+    expect(headersOf(init)['Content-Type']).toMatch(
+      /^multipart\/related; boundary=upload_/
+    );
+    const body = await readText(init?.body as Blob);
+    expect(body).toContain('{"name":"report.csv","parents":["folder"]}');
+    expect(body).toContain('Content-Type: text/csv\r\n\r\na,b\n1,2');
+  });
+
+  it('should send only the content in media mode', async () => {
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(createdFile()));
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+
+    await drive.uploadFile('hello', {}, { mode: 'media' });
+
+    const [url, init] = fetchMock.mock.calls[0] ?? [];
+    expect(url).toContain('uploadType=media');
+    expect(headersOf(init)['Content-Type']).toBe('text/plain');
+  });
+
+  it('should upload resumable sessions in chunks and report progress', async () => {
+    const size = UPLOAD_CHUNK_GRANULARITY * 2 + 100;
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(sessionStarted())
+      .mockResolvedValueOnce(resumeIncomplete(UPLOAD_CHUNK_GRANULARITY))
+      .mockResolvedValueOnce(resumeIncomplete(UPLOAD_CHUNK_GRANULARITY * 2))
+      .mockResolvedValueOnce(createdFile());
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock,
+    });
+    const progress: UploadProgress[] = [];
+
+    await drive.uploadFile(
+      new Blob([new Uint8Array(size)], { type: 'application/pdf' }),
+      { name: 'report.pdf' },
+      {
+        mode: 'resumable',
+        chunkSize: UPLOAD_CHUNK_GRANULARITY,
+        onProgress: (update) => progress.push(update),
+      }
+    );
+
+    const start = headersOf(fetchMock.mock.calls[0]?.[1]);
+    expect(start['X-Upload-Content-Length']).toBe(String(size));
+    expect(
+      fetchMock.mock.calls
+        .slice(1)
+        .map(([, init]) => headersOf(init)['Content-Range'])
+    ).toEqual([
+      `bytes 0-262143/${String(size)}`,
+      `bytes 262144-524287/${String(size)}`,
+      `bytes 524288-524387/${String(size)}`,
+    ]);
+    expect(progress.map(({ bytesUploaded }) => bytesUploaded)).toEqual([
+      UPLOAD_CHUNK_GRANULARITY,
+      UPLOAD_CHUNK_GRANULARITY * 2,
+      size,
+    ]);
+  });
+
+  it('should resume from the received offset after a network failure', async () => {
+    const clock = new ManualClock();
+    const size = UPLOAD_CHUNK_GRANULARITY * 2;
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(sessionStarted())
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(resumeIncomplete(100))
+      .mockResolvedValueOnce(createdFile());
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      clock,
+      fetch: fetchMock,
+    });
+
+    const pending = drive.uploadFile(
+      new Blob([new Uint8Array(size)]),
+      {},
+      { mode: 'resumable', chunkSize: size }
+    );
+    await clock.advance(5000);
+    await pending;
+
+    expect(
+      fetchMock.mock.calls
+        .slice(1)
+        .map(([, init]) => headersOf(init)['Content-Range'])
+    ).toEqual([
+      'bytes 0-524287/524288',
+      'bytes */524288',
+      'bytes 100-524287/524288',
+    ]);
+  });
+
+  it('should ask for the received offset instead of resending after a server error', async () => {
+    const clock = new ManualClock();
+    const size = UPLOAD_CHUNK_GRANULARITY * 2;
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(sessionStarted())
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: { code: 503, message: 'x' } }), {
+          status: 503,
+        })
+      )
+      .mockResolvedValueOnce(resumeIncomplete(100))
+      .mockResolvedValueOnce(createdFile());
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      clock,
+      fetch: fetchMock,
+    });
+
+    const pending = drive.uploadFile(
+      new Blob([new Uint8Array(size)]),
+      {},
+      { mode: 'resumable', chunkSize: size }
+    );
+    await clock.advance(5000);
+    await pending;
+
+    expect(
+      fetchMock.mock.calls
+        .slice(1)
+        .map(([, init]) => headersOf(init)['Content-Range'])
+    ).toEqual([
+      'bytes 0-524287/524288',
+      'bytes */524288',
+      'bytes 100-524287/524288',
+    ]);
+  });
+
+  it("should not apply the client's per-request timeout to chunks", async () => {
+    const clock = new ManualClock();
+    const fetchMock = vi.fn<typeof fetch>(
+      () =>
+        new Promise((resolve) => {
+          clock.setTimeout(() => {
+            resolve(createdFile());
+          }, 2000);
+        })
+    );
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      clock,
+      timeoutMs: 1000,
+      fetch: fetchMock,
+    });
+
+    const pending = drive.uploadFile('slow link');
+    await clock.advance(2000);
+
+    await expect(pending).resolves.toMatchObject({ id: 'f1' });
+  });
+
+  it('should apply the request timeout to the whole upload', async () => {
+    const clock = new ManualClock();
+    const fetchMock = vi.fn<typeof fetch>(
+      (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => {
+            reject(init.signal?.reason as Error);
+          });
+        })
+    );
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      clock,
+      fetch: fetchMock,
+    });
+
+    const pending = drive
+      .uploadFile('data', {}, {}, { timeoutMs: 1000 })
+      .catch((e: unknown) => e);
+    await clock.advance(1000);
+
+    expect(await pending).toBeInstanceOf(RequestTimeoutError);
+  });
+
+  it('should give up after repeated failures without progress', async () => {
+    const clock = new ManualClock();
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(sessionStarted())
+      .mockRejectedValue(new TypeError('Failed to fetch'));
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      clock,
+      retryPolicy: { maxAttempts: 2 },
+      fetch: fetchMock,
+    });
+
+    const pending = drive
+      .uploadFile('data', {}, { mode: 'resumable' })
+      .catch((e: unknown) => e);
+    await clock.advance(5000);
+
+    expect(await pending).toBeInstanceOf(TypeError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Drive Upload Helpers
+ *
+ * Request bodies and headers for Drive media uploads.
+ *
+ * @see https://developers.google.com/drive/api/guides/manage-uploads
+ */
+
+import type { FileMetadata } from './types';
+
+/** Resumable chunks must be a multiple of this size (except the last) */
+export const UPLOAD_CHUNK_GRANULARITY = 256 * 1024;
+
+/** Default resumable chunk size */
+export const DEFAULT_UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/** Content larger than this is uploaded with a resumable session by default */
+export const RESUMABLE_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
+
+/**
+ * Round a requested chunk size down to the upload granularity
+ */
+export function resumableChunkSize(
+  requested = DEFAULT_UPLOAD_CHUNK_SIZE
+): number {
+  const chunks = Math.floor(requested / UPLOAD_CHUNK_GRANULARITY);
+  return Math.max(1, chunks) * UPLOAD_CHUNK_GRANULARITY;
+}
+
+/**
+ * Build a `multipart/related` body with JSON metadata and file content
+ */
+export function buildMultipartBody(
+  metadata: FileMetadata,
+  content: Blob,
+  contentType: string,
+  boundary: string
+): Blob {
+  return new Blob([
+    `--${boundary}\r\n`,
+    'Content-Type: application/json; charset=UTF-8\r\n\r\n',
+    JSON.stringify(metadata),
+    `\r\n--${boundary}\r\n`,
+    `Content-Type: ${contentType}\r\n\r\n`,
+    content,
+    `\r\n--${boundary}--`,
+  ]);
+}
+
+/**
+ * Content-Range header for the bytes `[start, end)` of a resumable upload
+ *
+ * An empty range (`bytes *\/total`) asks for the session's status.
+ */
+export function contentRange(
+  start: number,
+  end: number,
+  total: number
+): string {
+  return end > start
+    ? `bytes ${String(start)}-${String(end - 1)}/${String(total)}`
+    : `bytes */${String(total)}`;
+}
+
+/**
+ * Bytes a resumable session has received, from its `Range: bytes=0-N`
+ * response header (no header means nothing was received)
+ */
+export function parseUploadOffset(range: string | null): number {
+  const match = range?.match(/bytes=0-(\d+)/);
+  return match?.[1] ? parseInt(match[1], 10) + 1 : 0;
+}
@@ -0,0 +1,70 @@
+/**
+ * Endpoint Keys
+ *
+ * Reduces request URLs to an API and a normalized endpoint template, so
+ * per-endpoint state (circuit breakers, metrics) is shared by every call
+ * to the same method regardless of resource IDs or query parameters.
+ *
+ * @example
+ * endpointKey('https://www.googleapis.com/drive/v3/files/abc/permissions?x=1');
+ * // { api: 'drive', endpoint: '/files/:id/permissions' }
+ */
+
+import { API_ENDPOINTS, type ApiType } from './constants';
+
+/**
+ * API and endpoint template of a request URL
+ */
+export interface EndpointKey {
+  /** API whose base URL the request starts with, if any */
+  api?: ApiType;
+  /** Path template with resource IDs replaced by `:id` */
+  endpoint: string;
+}
+
+/**
+ * Fixed path segments that sit where a resource ID would
+ * (e.g. `/events/quickAdd`, `/changes/startPageToken`)
+ */
+const LITERAL_SEGMENTS = new Set([
+  'generateIds',
+  'import',
+  'quickAdd',
+  'startPageToken',
+  'stop',
+  'trash',
+  'watch',
+]);
+
+/**
+ * Normalize a request URL to its API and endpoint template
+ *
+ * Google REST paths alternate between collection names and resource IDs
+ * (`/calendars/{id}/events/{id}`), so every second segment is replaced,
+ * except for fixed method names in LITERAL_SEGMENTS. Custom methods
+ * (`/spreadsheets/{id}:batchUpdate`) keep their verb. URLs outside the
+ * known API bases keep their full path.
+ */
+export function endpointKey(url: string): EndpointKey {
+  const { origin, pathname } = new URL(url);
+  const withoutQuery = origin + pathname;
+  const apis = Object.keys(API_ENDPOINTS) as ApiType[];
+  const api = apis.find((candidate) =>
+    withoutQuery.startsWith(API_ENDPOINTS[candidate])
+  );
+  if (!api) {
+    return { endpoint: pathname };
+  }
+
+  const segments = withoutQuery
+    .slice(API_ENDPOINTS[api].length)
+    .split('/')
+    .filter(Boolean)
+    .map((segment, index) => {
+      if (index % 2 === 0 || LITERAL_SEGMENTS.has(segment)) return segment;
+      const verb = segment.indexOf(':');
+      return verb === -1 ? ':id' : `:id${segment.slice(verb)}`;
+    });
+
+  return { api, endpoint: `/${segments.join('/')}` };
+}
@@ -0,0 +1,167 @@
+/**
+ * Field Mask Tests
+ *
+ * Tests for field mask serialisation, the narrowed result types, and the
+ * `fields=` parameter sent by the clients.
+ */
+
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+  buildFieldMask,
+  selectSchemaByFields,
+  type SelectFields,
+} from './fields';
+import { GoogleCalendarClient } from './calendar';
+import { GoogleDriveClient, type DriveFile } from './drive';
+import { driveFileSchema } from './drive/schemas';
+import { GoogleSheetsClient } from './sheets';
+import { ResponseValidationError } from './types';
+
+function fetchReturning(body: unknown) {
+  return vi.fn<(input: string) => Promise<Response>>(() =>
+    Promise.resolve(new Response(JSON.stringify(body)))
+  );
+}
+
+describe('buildFieldMask', () => {
+  it('should join top-level fields', () => {
+    expect(buildFieldMask<DriveFile>(['id', 'name'])).toBe('id,name');
+  });
+
+  it('should wrap nested selections in parentheses', () => {
+    expect(
+      buildFieldMask<DriveFile>([
+        'id',
+        { owners: ['displayName', 'emailAddress'] },
+      ])
+    ).toBe('id,owners(displayName,emailAddress)');
+  });
+});
+
+describe('selectSchemaByFields', () => {
+  it('should check only the named top-level fields', () => {
+    const schema = selectSchemaByFields(driveFileSchema, 'id, owners(email)');
+
+    expect(schema.check({ id: 'a' }, '$')).toBeUndefined();
+    expect(schema.check({ id: 1 }, '$')?.path).toBe('$.id');
+  });
+
+  it('should keep the whole schema for *', () => {
+    expect(selectSchemaByFields(driveFileSchema, '*')).toBe(driveFileSchema);
+  });
+});
+
+describe('SelectFields', () => {
+  it('should keep only selected properties with their optionality', () => {
+    type File = SelectFields<
+      DriveFile,
+      readonly ['id', 'size', { readonly owners: readonly ['displayName'] }]
+    >;
+
+    expectTypeOf<File>().toEqualTypeOf<{
+      id: string;
+      size?: string;
+      owners?: { displayName: string }[];
+    }>();
+  });
+});
+
+describe('field masks in clients', () => {
+  it('should send the mask as fields= for getFile', async () => {
+    const fetchMock = fetchReturning({ id: 'a', name: 'A' });
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      validation: 'strict',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const file = await drive.getFile('a', {
+      fields: ['id', 'name', { owners: ['emailAddress'] }],
+    });
+
+    expectTypeOf(file).toEqualTypeOf<{
+      id: string;
+      name: string;
+      owners?: { emailAddress?: string }[];
+    }>();
+    expect(file).toEqual({ id: 'a', name: 'A' });
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('fields')).toBe(
+      'id,name,owners(emailAddress)'
+    );
+  });
+
+  it('should apply the mask to each file in listFiles', async () => {
+    const fetchMock = fetchReturning({ files: [{ id: 'a' }] });
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const { files } = await drive.listFiles({ fields: ['id'] });
+
+    expectTypeOf(files).toEqualTypeOf<{ id: string }[]>();
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('fields')).toBe(
+      'nextPageToken,files(id)'
+    );
+  });
+
+  it('should accept partial responses for string selections in strict mode', async () => {
+    const config = { accessToken: 'token', validation: 'strict' as const };
+    const drive = new GoogleDriveClient({
+      ...config,
+      fetch: fetchReturning({ id: 'a' }) as unknown as typeof fetch,
+    });
+    const calendar = new GoogleCalendarClient({
+      ...config,
+      fetch: fetchReturning({
+        items: [{ id: 'e1' }],
+      }) as unknown as typeof fetch,
+    });
+    const sheets = new GoogleSheetsClient({
+      ...config,
+      fetch: fetchReturning({ spreadsheetId: 's' }) as unknown as typeof fetch,
+    });
+
+    await expect(drive.getFile('a', { fields: 'id' })).resolves.toEqual({
+      id: 'a',
+    });
+    await expect(
+      calendar.listEvents('primary', { fields: 'id' })
+    ).resolves.toEqual({ items: [{ id: 'e1' }] });
+    await expect(
+      sheets.getSpreadsheet('s', { fields: 'spreadsheetId' })
+    ).resolves.toEqual({ spreadsheetId: 's' });
+  });
+
+  it('should still check the fields a string selects', async () => {
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      validation: 'strict',
+      fetch: fetchReturning({ id: 1 }) as unknown as typeof fetch,
+    });
+
+    await expect(drive.getFile('a', { fields: 'id' })).rejects.toBeInstanceOf(
+      ResponseValidationError
+    );
+  });
+
+  it('should support nested array selectors for getSpreadsheet', async () => {
+    const fetchMock = fetchReturning({
+      spreadsheetId: 's',
+      sheets: [{ properties: { title: 'Tab' } }],
+    });
+    const sheets = new GoogleSheetsClient({
+      accessToken: 'token',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const spreadsheet = await sheets.getSpreadsheet('s', {
+      fields: ['spreadsheetId', { sheets: [{ properties: ['title'] }] }],
+    });
+
+    expect(spreadsheet.sheets?.[0].properties.title).toBe('Tab');
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('fields')).toBe(
+      'spreadsheetId,sheets(properties(title))'
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Field Masks
+ *
+ * Typed partial-response selectors. A field mask lists the properties to
+ * request; nested objects and arrays are selected with an object entry.
+ * The mask is serialised to the `fields=` query parameter, and the client
+ * narrows its return type to just the selected properties.
+ *
+ * @example
+ * const mask = ['id', 'name', { owners: ['displayName'] }] as const;
+ * buildFieldMask(mask);             // 'id,name,owners(displayName)'
+ * type File = SelectFields<DriveFile, typeof mask>;
+ * // { id: string; name: string; owners?: { displayName: string }[] }
+ *
+ * @see https://developers.google.com/drive/api/guides/fields-parameter
+ */
+
+import { object, type ObjectSchema, type Schema } from './schema';
+
+/**
+ * Unwrap array element types (selectors apply to array items)
+ */
+type ElementOf<T> = T extends readonly (infer U)[] ? U : T;
+
+/**
+ * List of properties to select from T
+ */
+export type FieldMask<T> = readonly FieldSelector<T>[];
+
+/**
+ * A single property name, or an object selecting sub-fields of properties
+ */
+export type FieldSelector<T> =
+  | (keyof T & string)
+  | {
+      readonly [K in keyof T & string]?: FieldMask<
+        ElementOf<NonNullable<T[K]>>
+      >;
+    };
+
+type Entries<M> = M extends readonly (infer E)[] ? E : never;
+
+type SelectedKeys<M> = Extract<Entries<M>, string>;
+
+type NestedSelectors<M> = Exclude<Entries<M>, string>;
+
+type NestedKeys<M> =
+  NestedSelectors<M> extends infer S
+    ? S extends object
+      ? keyof S
+      : never
+    : never;
+
+type NestedMask<M, K> =
+  NestedSelectors<M> extends infer S
+    ? S extends Partial<Record<K & string, infer Sub>>
+      ? Sub
+      : never
+    : never;
+
+/**
+ * Apply a nested mask to a property value, keeping arrays and undefined
+ */
+type SelectNested<V, M> = V extends readonly (infer U)[]
+  ? SelectFields<U, M>[]
+  : V extends object
+    ? SelectFields<V, M>
+    : V;
+
+/**
+ * The shape of T once narrowed to the properties selected by mask M
+ *
+ * Optional properties stay optional.
+ */
+export type SelectFields<T, M> = {
+  [K in keyof T as K extends SelectedKeys<M> | NestedKeys<M>
+    ? K
+    : never]: K extends SelectedKeys<M>
+    ? T[K]
+    : SelectNested<T[K], NestedMask<M, K>>;
+};
+
+/**
+ * Serialise a field mask to Google's `fields` syntax
+ *
+ * @example
+ * buildFieldMask(['id', { sheets: [{ properties: ['title'] }] }]);
+ * // 'id,sheets(properties(title))'
+ */
+export function buildFieldMask<T>(mask: FieldMask<T>): string {
+  return mask
+    .flatMap((selector) => {
+      if (typeof selector === 'string') {
+        return [selector];
+      }
+      return Object.entries(selector as Record<string, FieldMask<unknown>>).map(
+        ([key, nested]) => `${key}(${buildFieldMask(nested)})`
+      );
+    })
+    .join(',');
+}
+
+/**
+ * Narrow an object schema to the properties selected by a mask
+ *
+ * Plain property selections keep their schema. Properties selected with
+ * a nested mask are not checked, since their schema may require sub-fields
+ * the mask leaves out.
+ */
+export function selectSchema<T, M extends FieldMask<T>>(
+  schema: ObjectSchema<T>,
+  mask: M
+): Schema<SelectFields<T, M>> {
+  const shape: Record<string, Schema<unknown>> = {};
+  for (const selector of mask) {
+    const selected =
+      typeof selector === 'string' ? schema.shape[selector] : undefined;
+    if (selected) {
+      shape[selector as string] = selected;
+    }
+  }
+  return object(shape) as Schema<SelectFields<T, M>>;
+}
+
+/**
+ * Narrow an object schema to the properties named in a `fields` string
+ *
+ * Works like selectSchema for a field mask: `*` keeps the whole schema,
+ * plain property names keep their schema, and properties with a
+ * sub-selection (`start(date)` or `start/date`) are not checked.
+ */
+export function selectSchemaByFields<T>(
+  schema: ObjectSchema<T>,
+  fields: string
+): Schema<T> {
+  const names = splitTopLevel(fields);
+  if (names.includes('*')) {
+    return schema;
+  }
+  const plain = names.filter((name) => /^\w+$/.test(name));
+  return selectSchema(schema, plain as (keyof T & string)[]) as Schema<T>;
+}
+
+/**
+ * Split a `fields` string at commas outside parentheses
+ */
+function splitTopLevel(fields: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < fields.length; i++) {
+    const char = fields[i];
+    if (char === '(') depth += 1;
+    else if (char === ')') depth -= 1;
+    else if (char === ',' && depth === 0) {
+      parts.push(fields.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(fields.slice(start).trim());
+  return parts;
+}
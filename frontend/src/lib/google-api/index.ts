@@ -15,24 +15,162 @@
  */
 
 // Base types and utilities
-export type { ApiType, RateLimitConfig } from './constants';
-export { API_RATE_LIMITS, API_ENDPOINTS, GOOGLE_MIME_TYPES } from './constants';
+export type {
+  AdaptiveRateConfig,
+  ApiType,
+  CircuitBreakerConfig,
+  ExportableMimeType,
+  ExportMimeType,
+  GoogleMimeType,
+  OperationKind,
+  RateLimitBucketConfig,
+  RateLimitConfig,
+  RequestPriority,
+  RetryPolicy,
+} from './constants';
+export {
+  API_RATE_LIMITS,
+  API_ENDPOINTS,
+  BATCH_ENDPOINTS,
+  CACHE_TTLS,
+  CONFLICT_REASONS,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  MAX_BATCH_SIZE,
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_MAX_QUEUE_LENGTH,
+  EXPORT_FORMATS,
+  GOOGLE_MIME_TYPES,
+  INSUFFICIENT_SCOPE_REASONS,
+  PRECONDITION_FAILED_REASONS,
+  QUOTA_EXCEEDED_REASONS,
+  RATE_LIMIT_REASONS,
+  REQUEST_PRIORITIES,
+  UPLOAD_ENDPOINTS,
+} from './constants';
 export {
   GoogleApiError,
   TokenExpiredError,
   RateLimitError,
   PermissionDeniedError,
+  InsufficientScopeError,
   NotFoundError,
+  QuotaExceededError,
+  PreconditionFailedError,
+  ConflictError,
+  ValidationError,
+  UnsupportedExportError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  CircuitOpenError,
+  QueueFullError,
+  MutationQueuedError,
+  ResponseValidationError,
   type ClientConfig,
+  type ErrorMessageKey,
+  type OfflineWriteOptions,
+  type RequestOptions,
 } from './types';
 
 // Client classes
 export { GoogleApiClient } from './client';
-export { RateLimiter } from './rate-limiter';
+export { GoogleApiBatch } from './batch';
+export {
+  Paginator,
+  type Page,
+  type PageFetcher,
+  type PaginateOptions,
+} from './paginate';
+export {
+  composeMiddleware,
+  type Middleware,
+  type MiddlewareNext,
+  type MiddlewareRequest,
+} from './middleware';
+export {
+  RateLimiter,
+  type AcquireOptions,
+  type AdaptiveRateStats,
+  type BucketStats,
+  type LimiterLocks,
+  type LimiterStorage,
+  type QueueStats,
+  type RateChange,
+  type RateLimiterOptions,
+  type WaitStats,
+} from './rate-limiter';
+export {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  type CircuitListener,
+  type CircuitSnapshot,
+  type CircuitState,
+  type CircuitStateChange,
+} from './circuit-breaker';
+export { endpointKey, type EndpointKey } from './endpoint';
+export {
+  Telemetry,
+  TelemetryAggregator,
+  type BackoffEvent,
+  type CacheHitEvent,
+  type EndpointMetrics,
+  type RateLimitWaitEvent,
+  type RequestEndEvent,
+  type RequestStartEvent,
+  type RetryEvent,
+  type SchemaMismatchEvent,
+  type TelemetryAggregatorOptions,
+  type TelemetryEvent,
+  type TelemetryListener,
+} from './telemetry';
+export {
+  browserConnectivity,
+  IndexedDbMutationStore,
+  isOfflineError,
+  MemoryMutationStore,
+  MutationQueue,
+  type Connectivity,
+  type MutationExecutor,
+  type MutationQueueOptions,
+  type MutationQueueState,
+  type MutationStore,
+  type NewMutation,
+  type QueuedMutation,
+} from './offline-queue';
+export {
+  defaultLimiterRegistry,
+  RateLimiterRegistry,
+  type RateLimiterRegistryOptions,
+} from './limiter-registry';
+export {
+  buildFieldMask,
+  type FieldMask,
+  type FieldSelector,
+  type SelectFields,
+} from './fields';
+export type {
+  ObjectSchema,
+  Schema,
+  SchemaIssue,
+  ValidationMode,
+} from './schema';
+export { ManualClock, systemClock, type Clock } from './clock';
+export {
+  IndexedDbCacheStore,
+  MemoryCacheStore,
+  WebStorageCacheStore,
+  type CacheConfig,
+  type CacheEntry,
+  type CacheStore,
+} from './cache';
 
 // API-specific clients and types
 export { GoogleDriveClient } from './drive';
 export type * from './drive/types';
+export {
+  DriveChangeSync,
+  type ChangeTokenStorage,
+  type DriveChangeSyncOptions,
+} from './drive/changes';
 
 export { GoogleSheetsClient } from './sheets';
 export type * from './sheets/types';
@@ -0,0 +1,140 @@
+/**
+ * IndexedDB Helper Tests
+ *
+ * Tests for transaction completion and reopening after a failed open,
+ * against a minimal scripted stand-in for the IndexedDB API.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IndexedDbObjectStore } from './indexed-db';
+
+interface FakeRequest {
+  result?: unknown;
+  error: DOMException | null;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+interface FakeTransaction {
+  error: DOMException | null;
+  oncomplete?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+}
+
+/**
+ * Stub the global indexedDB with databases whose transactions finish only
+ * when the test says so
+ */
+function stubIndexedDb(failedOpens = 0) {
+  const transactions: FakeTransaction[] = [];
+  const db = {
+    transaction: () => {
+      const transaction: FakeTransaction = { error: null };
+      transactions.push(transaction);
+      return {
+        ...transaction,
+        objectStore: () => ({
+          put: () => {
+            const request: FakeRequest = { error: null };
+            queueMicrotask(() => {
+              request.result = 'key';
+              request.onsuccess?.();
+            });
+            return request;
+          },
+        }),
+        set oncomplete(callback: () => void) {
+          transaction.oncomplete = callback;
+        },
+        set onerror(callback: () => void) {
+          transaction.onerror = callback;
+        },
+        set onabort(callback: () => void) {
+          transaction.onabort = callback;
+        },
+      };
+    },
+  };
+  const open = vi.fn(() => {
+    const request: FakeRequest = { error: null };
+    const fail = failedOpens > 0;
+    failedOpens -= 1;
+    queueMicrotask(() => {
+      if (fail) {
+        request.error = new DOMException('Blocked', 'UnknownError');
+        request.onerror?.();
+      } else {
+        request.result = db;
+        request.onsuccess?.();
+      }
+    });
+    return request;
+  });
+  vi.stubGlobal('indexedDB', { open });
+  return { open, transactions };
+}
+
+function settled(promise: Promise<unknown>) {
+  let done = false;
+  promise.then(
+    () => (done = true),
+    () => (done = true)
+  );
+  return async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    return done;
+  };
+}
+
+describe('IndexedDbObjectStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve a write only once its transaction commits', async () => {
+    const { transactions } = stubIndexedDb();
+    const store = new IndexedDbObjectStore('db', 'items');
+
+    const put = store.run('readwrite', (objectStore) =>
+      objectStore.put('value')
+    );
+    const isSettled = settled(put);
+
+    expect(await isSettled()).toBe(false);
+    transactions[0]?.oncomplete?.();
+    await expect(put).resolves.toBe('key');
+  });
+
+  it('should reject a write whose transaction aborts', async () => {
+    const { transactions } = stubIndexedDb();
+    const store = new IndexedDbObjectStore('db', 'items');
+
+    const put = store.run('readwrite', (objectStore) =>
+      objectStore.put('value')
+    );
+    await settled(put)();
+    transactions[0]?.onabort?.();
+
+    await expect(put).rejects.toThrow('IndexedDB transaction failed');
+  });
+
+  it('should open the database again after a failed open', async () => {
+    const { open, transactions } = stubIndexedDb(1);
+    const store = new IndexedDbObjectStore('db', 'items');
+
+    await expect(
+      store.run('readwrite', (objectStore) => objectStore.put('value'))
+    ).rejects.toThrow('Blocked');
+
+    const put = store.run('readwrite', (objectStore) =>
+      objectStore.put('value')
+    );
+    await settled(put)();
+    transactions[0]?.oncomplete?.();
+
+    await expect(put).resolves.toBe('key');
+    expect(open).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * IndexedDB Helper
+ *
+ * Lazily opened single-object-store database shared by the IndexedDB
+ * cache and mutation stores.
+ */
+
+/**
+ * One object store in its own database, opened on first use
+ */
+export class IndexedDbObjectStore {
+  private readonly dbName: string;
+  private readonly storeName: string;
+  private readonly options?: IDBObjectStoreParameters;
+  private dbPromise?: Promise<IDBDatabase>;
+
+  /**
+   * @param dbName - Database name
+   * @param storeName - Object store name
+   * @param options - Key path or generator used when creating the store
+   */
+  constructor(
+    dbName: string,
+    storeName: string,
+    options?: IDBObjectStoreParameters
+  ) {
+    this.dbName = dbName;
+    this.storeName = storeName;
+    this.options = options;
+  }
+
+  /**
+   * Run a single request against the object store
+   *
+   * Resolves once the transaction has committed, so a successful write is
+   * on disk rather than only accepted.
+   */
+  async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      const fail = () => {
+        reject(
+          request.error ??
+            transaction.error ??
+            new Error('IndexedDB transaction failed')
+        );
+      };
+      transaction.oncomplete = () => {
+        resolve(request.result);
+      };
+      transaction.onerror = fail;
+      transaction.onabort = fail;
+    });
+  }
+
+  /**
+   * Open (and create if needed) the backing database
+   *
+   * A failed open isn't remembered, so the next call tries again.
+   */
+  private open(): Promise<IDBDatabase> {
+    this.dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName, this.options);
+      };
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        reject(request.error ?? new Error('Failed to open IndexedDB'));
+      };
+    }).catch((error: unknown) => {
+      this.dbPromise = undefined;
+      throw error;
+    });
+    return this.dbPromise;
+  }
+}
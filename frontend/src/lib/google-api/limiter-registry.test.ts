@@ -0,0 +1,232 @@
+/**
+ * Rate Limiter Registry Tests
+ *
+ * Tests for sharing limiters between clients for the same user, and for
+ * sharing limiter state between tabs through storage. Each "tab" is a
+ * separate registry over the same in-memory storage.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RateLimiterRegistry } from './limiter-registry';
+import {
+  RateLimiter,
+  type LimiterLocks,
+  type LimiterStorage,
+} from './rate-limiter';
+import { ManualClock } from './clock';
+import { API_RATE_LIMITS, type RateLimitConfig } from './constants';
+import { GoogleDriveClient } from './drive';
+import { GoogleSheetsClient } from './sheets';
+
+const config: RateLimitConfig = {
+  requestsPerMinute: 600,
+  requestsPerUserPerMinute: 60,
+  windowMs: 60_000,
+  burstSize: 5,
+};
+
+function memoryStorage(): LimiterStorage {
+  const entries = new Map<string, string>();
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+  };
+}
+
+/**
+ * Lock manager that runs callbacks one at a time, like `navigator.locks`
+ * shared by every tab
+ */
+function fakeLocks(): LimiterLocks & { held: boolean } {
+  let tail: Promise<unknown> = Promise.resolve();
+  const locks = {
+    held: false,
+    request<T>(_name: string, callback: () => T): Promise<T> {
+      const run = tail.then(() => {
+        locks.held = true;
+        try {
+          return callback();
+        } finally {
+          locks.held = false;
+        }
+      });
+      tail = run.catch(() => undefined);
+      return run;
+    },
+  };
+  return locks;
+}
+
+describe('RateLimiterRegistry', () => {
+  it('should return the same limiter for the same user and API', () => {
+    const registry = new RateLimiterRegistry();
+    const clock = new ManualClock();
+
+    const first = registry.get('user-1', 'drive', config, clock);
+
+    expect(registry.get('user-1', 'drive', config, clock)).toBe(first);
+    expect(registry.get('user-1', 'sheets', config, clock)).not.toBe(first);
+    expect(registry.get('user-2', 'drive', config, clock)).not.toBe(first);
+  });
+
+  it('should forget limiters for a cleared user only', () => {
+    const registry = new RateLimiterRegistry();
+    const first = registry.get('user-1', 'drive', config);
+    registry.get('user-2', 'drive', config);
+
+    registry.clear('user-1');
+
+    expect(registry.size).toBe(1);
+    expect(registry.get('user-1', 'drive', config)).not.toBe(first);
+  });
+});
+
+describe('RateLimiter shared across tabs', () => {
+  it('should draw tokens from the same buckets', () => {
+    const storage = memoryStorage();
+    const clock = new ManualClock();
+    const tabA = new RateLimiterRegistry({ storage });
+    const tabB = new RateLimiterRegistry({ storage });
+
+    const limiterA = tabA.get('user-1', 'drive', config, clock);
+    const limiterB = tabB.get('user-1', 'drive', config, clock);
+    for (let i = 0; i < 3; i++) {
+      expect(limiterA.tryAcquire()).toBe(true);
+    }
+
+    expect(limiterB.getTokenCount()).toBe(2);
+    expect(limiterB.tryAcquire(2)).toBe(true);
+    expect(limiterA.tryAcquire()).toBe(false);
+  });
+
+  it('should refill shared buckets over time', async () => {
+    const storage = memoryStorage();
+    const clock = new ManualClock();
+    const options = { storage, storageKey: 'shared' };
+    const limiterA = new RateLimiter(config, clock, options);
+    const limiterB = new RateLimiter(config, clock, options);
+
+    expect(limiterA.tryAcquire(5)).toBe(true);
+    await clock.advance(1000); // 1 token per second per user
+
+    expect(limiterB.getTokenCount()).toBe(1);
+  });
+
+  it('should share backoff between tabs', () => {
+    const storage = memoryStorage();
+    const clock = new ManualClock();
+    const options = { storage, storageKey: 'shared' };
+    const limiterA = new RateLimiter(config, clock, options);
+    const limiterB = new RateLimiter(config, clock, options);
+
+    void limiterA.backoff();
+
+    expect(limiterB.isInBackoff()).toBe(true);
+    expect(limiterB.tryAcquire()).toBe(false);
+
+    limiterA.resetBackoff();
+    expect(limiterB.isInBackoff()).toBe(false);
+  });
+
+  it('should take shared tokens only while holding the lock', async () => {
+    const locks = fakeLocks();
+    const entries = memoryStorage();
+    const unlockedWrites: string[] = [];
+    const storage: LimiterStorage = {
+      getItem: (key) => entries.getItem(key),
+      setItem: (key, value) => {
+        if (!locks.held) unlockedWrites.push(key);
+        entries.setItem(key, value);
+      },
+    };
+    const clock = new ManualClock();
+    const options = { storage, storageKey: 'shared', locks };
+    const tabA = new RateLimiter(config, clock, options);
+    const tabB = new RateLimiter(config, clock, options);
+    let granted = 0;
+
+    const pending = [tabA, tabB, tabA, tabB, tabA, tabB, tabA].map(
+      async (limiter) => {
+        await limiter.acquire();
+        granted += 1;
+      }
+    );
+    await vi.waitFor(() => {
+      expect(granted).toBe(5);
+    });
+    await clock.advance(1000);
+    expect(granted).toBe(6);
+    await clock.advance(1000);
+    await Promise.all(pending);
+
+    // Both tabs together get the burst, then one token per second
+    expect(granted).toBe(7);
+    expect(unlockedWrites).toEqual([]);
+  });
+
+  it('should fall back to local state when storage throws', () => {
+    const storage: LimiterStorage = {
+      getItem: () => {
+        throw new Error('SecurityError');
+      },
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    };
+    const limiter = new RateLimiter(config, new ManualClock(), { storage });
+
+    expect(limiter.tryAcquire(2)).toBe(true);
+    expect(limiter.getTokenCount()).toBe(3);
+  });
+});
+
+describe('GoogleApiClient shared limiters', () => {
+  const listing = () =>
+    Promise.resolve(new Response(JSON.stringify({ files: [] })));
+
+  it('should share limiters between clients with the same userKey', () => {
+    const limiterRegistry = new RateLimiterRegistry();
+    const clock = new ManualClock();
+    const first = new GoogleDriveClient({
+      accessToken: 'token',
+      userKey: 'user-1',
+      limiterRegistry,
+      clock,
+      fetch: listing,
+    });
+    const second = new GoogleDriveClient({
+      accessToken: 'token',
+      userKey: 'user-1',
+      limiterRegistry,
+      clock,
+      fetch: listing,
+    });
+
+    expect(first.getRateLimiterStats()).toEqual(second.getRateLimiterStats());
+    expect(limiterRegistry.size).toBe(1);
+  });
+
+  it('should charge Drive for spreadsheet listings from the Sheets client', async () => {
+    const limiterRegistry = new RateLimiterRegistry();
+    const clock = new ManualClock();
+    const shared = {
+      accessToken: 'token',
+      userKey: 'user-1',
+      limiterRegistry,
+      clock,
+      fetch: listing,
+    };
+    const sheets = new GoogleSheetsClient(shared);
+    const drive = new GoogleDriveClient(shared);
+
+    await sheets.listSpreadsheets();
+
+    const { burstSize } = API_RATE_LIMITS.drive;
+    expect(drive.getRateLimiterStats().tokens).toBe(burstSize - 1);
+    expect(sheets.getRateLimiterStats().tokens).toBe(
+      API_RATE_LIMITS.sheets.burstSize
+    );
+  });
+});
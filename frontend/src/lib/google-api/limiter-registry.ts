@@ -0,0 +1,117 @@
+/**
+ * Rate Limiter Registry
+ *
+ * Hands out one RateLimiter per user and API, so every client and hook
+ * acting for the same user draws on the same quota. With storage (by
+ * default `localStorage` in the browser) the limiter state is also shared
+ * with other tabs signed in as that user.
+ *
+ * @example
+ * const registry = new RateLimiterRegistry();
+ * const drive = googleApiClient('drive', {
+ *   accessToken,
+ *   userKey: user.uid,
+ *   limiterRegistry: registry,
+ * });
+ */
+
+import { systemClock, type Clock } from './clock';
+import type { ApiType, RateLimitConfig } from './constants';
+import { RateLimiter, type LimiterStorage } from './rate-limiter';
+
+/**
+ * Options for a limiter registry
+ */
+export interface RateLimiterRegistryOptions {
+  /** Storage for sharing limiter state across tabs (omit for in-memory) */
+  storage?: LimiterStorage;
+  /** Prefix for storage keys (default: 'google-api:rate-limit') */
+  keyPrefix?: string;
+}
+
+/**
+ * Registry of rate limiters keyed by user and API
+ */
+export class RateLimiterRegistry {
+  private readonly limiters = new Map<string, RateLimiter>();
+  private readonly storage?: LimiterStorage;
+  private readonly keyPrefix: string;
+
+  constructor(options: RateLimiterRegistryOptions = {}) {
+    this.storage = options.storage;
+    this.keyPrefix = options.keyPrefix ?? 'google-api:rate-limit';
+  }
+
+  /**
+   * Get the limiter for a user and API, creating it on first use
+   *
+   * The config and clock only apply when the limiter is created; later
+   * callers share the existing limiter as-is.
+   *
+   * @param userKey - Stable identifier of the signed-in user (e.g. uid)
+   * @param api - API whose quota the limiter enforces
+   * @param config - Rate limit configuration for a new limiter
+   * @param clock - Time source for a new limiter
+   */
+  get(
+    userKey: string,
+    api: ApiType,
+    config: RateLimitConfig,
+    clock: Clock = systemClock
+  ): RateLimiter {
+    const key = `${this.keyPrefix}:${userKey}:${api}`;
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(config, clock, {
+        storage: this.storage,
+        storageKey: key,
+      });
+      this.limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Forget limiters for one user (e.g. on sign-out), or for every user
+   *
+   * Shared storage entries are left in place for other tabs.
+   */
+  clear(userKey?: string): void {
+    if (userKey === undefined) {
+      this.limiters.clear();
+      return;
+    }
+    const prefix = `${this.keyPrefix}:${userKey}:`;
+    for (const key of this.limiters.keys()) {
+      if (key.startsWith(prefix)) {
+        this.limiters.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Number of limiters currently held
+   */
+  get size(): number {
+    return this.limiters.size;
+  }
+}
+
+/**
+ * Look up `localStorage`, which may be missing (non-browser hosts) or
+ * throw (storage disabled by privacy settings)
+ */
+function browserStorage(): LimiterStorage | undefined {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Registry used by clients that set `userKey` without their own registry
+ */
+export const defaultLimiterRegistry = new RateLimiterRegistry({
+  storage: browserStorage(),
+});
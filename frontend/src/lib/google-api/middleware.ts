@@ -0,0 +1,82 @@
+/**
+ * Request Middleware
+ *
+ * Middleware wraps the HTTP call made by GoogleApiClient. Each middleware
+ * receives the outgoing request and a `next` function that runs the rest of
+ * the chain (and ultimately fetch). This allows cross-cutting behaviour such
+ * as logging, request IDs, custom headers, metrics and test doubles without
+ * subclassing the clients.
+ *
+ * A middleware can:
+ * - Modify the request before calling `next`
+ * - Inspect or replace the response returned by `next`
+ * - Catch errors thrown by `next`
+ * - Short-circuit by returning a Response without calling `next`
+ * - Retry by calling `next` more than once
+ *
+ * @example
+ * const logging: Middleware = async (request, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     const response = await next(request);
+ *     console.log(request.method, request.url, response.status);
+ *     return response;
+ *   } finally {
+ *     console.log(`took ${String(Date.now() - started)}ms`);
+ *   }
+ * };
+ *
+ * const drive = googleApiClient('drive', { accessToken, middleware: [logging] });
+ */
+
+import type { ApiType } from './constants';
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface MiddlewareRequest {
+  /** Fully-qualified request URL */
+  url: string;
+  /** HTTP method */
+  method: string;
+  /** Request headers, including Authorization */
+  headers: Record<string, string>;
+  /** Request body, if any */
+  body?: BodyInit | null;
+  /** API the request belongs to */
+  apiType: ApiType;
+  /** Cancellation signal for the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs the remainder of the middleware chain
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Middleware function wrapping a single HTTP call
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext
+) => Promise<Response>;
+
+/**
+ * Compose middleware into a single handler
+ *
+ * Middleware run in array order: the first entry is the outermost wrapper.
+ *
+ * @param middleware - Middleware to compose
+ * @param terminal - Handler invoked at the end of the chain
+ * @returns Handler running the full chain
+ */
+export function composeMiddleware(
+  middleware: readonly Middleware[],
+  terminal: MiddlewareNext
+): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, current) => (request) => current(request, next),
+    terminal
+  );
+}
@@ -0,0 +1,371 @@
+/**
+ * Offline Queue Tests
+ *
+ * Tests for queueing writes while offline, ordered replay when
+ * connectivity returns, and idempotent replay of calendar writes.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MemoryMutationStore,
+  MutationQueue,
+  type Connectivity,
+} from './offline-queue';
+import { GoogleCalendarClient } from './calendar';
+import { GoogleSheetsClient } from './sheets';
+import { MutationQueuedError, type ClientConfig } from './types';
+
+function fakeConnectivity(online: boolean) {
+  const listeners = new Set<() => void>();
+  const connectivity: Connectivity & { goOnline(): void } = {
+    isOnline: () => online,
+    onOnline: (callback) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+    goOnline: () => {
+      online = true;
+      listeners.forEach((listener) => {
+        listener();
+      });
+    },
+  };
+  return connectivity;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function errorResponse(status: number): Response {
+  return json({ error: { code: status, message: 'Request failed' } }, status);
+}
+
+function clientConfig(
+  queue: MutationQueue,
+  fetchImpl: typeof fetch
+): ClientConfig {
+  return {
+    accessToken: 'token',
+    offlineQueue: queue,
+    retryPolicy: { maxAttempts: 1 },
+    fetch: fetchImpl,
+  };
+}
+
+describe('MutationQueue', () => {
+  it('should queue writes while offline and replay them in order', async () => {
+    const connectivity = fakeConnectivity(false);
+    const queue = new MutationQueue({ connectivity });
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(json({})));
+    const sheets = new GoogleSheetsClient(clientConfig(queue, fetchMock));
+
+    await expect(
+      sheets.updateValues('abc', 'A1', [['first']])
+    ).rejects.toBeInstanceOf(MutationQueuedError);
+    await expect(sheets.appendRow('abc', 'Sheet1', ['second'])).rejects.toThrow(
+      MutationQueuedError
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(queue.getState().pending).toHaveLength(2);
+
+    connectivity.goOnline();
+    await queue.replay();
+
+    expect(fetchMock.mock.calls.map(([, init]) => init?.method)).toEqual([
+      'PUT',
+      'POST',
+    ]);
+    expect(fetchMock.mock.calls[1]?.[1]?.body).toContain('second');
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it('should queue a write only once per idempotency key', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(false) });
+    const mutation = {
+      id: 'key',
+      api: 'sheets' as const,
+      method: 'POST',
+      url: 'https://sheets.googleapis.com/v4/spreadsheets/abc:batchUpdate',
+    };
+
+    const first = await queue.enqueue(mutation);
+    const second = await queue.enqueue(mutation);
+
+    expect(second).toBe(first);
+    expect(queue.getState().pending).toHaveLength(1);
+  });
+
+  it('should hold back later writes after a transient failure', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    const fetchMock = vi
+      .fn<() => Promise<Response>>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(json({}));
+    const sheets = new GoogleSheetsClient(clientConfig(queue, fetchMock));
+
+    await expect(sheets.clearValues('abc', 'A1')).rejects.toThrow(
+      MutationQueuedError
+    );
+    await queue.enqueue({
+      id: 'later',
+      api: 'sheets',
+      method: 'POST',
+      url: 'https://sheets.googleapis.com/v4/spreadsheets/abc/values/B1:clear',
+    });
+    await queue.replay();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(queue.getState().pending).toMatchObject([
+      { attempts: 1, lastError: 'Failed to fetch' },
+      { id: 'later', attempts: 0 },
+    ]);
+
+    await queue.replay();
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it('should mark rejected writes failed until retried', async () => {
+    const connectivity = fakeConnectivity(false);
+    const store = new MemoryMutationStore();
+    const queue = new MutationQueue({ store, connectivity });
+    const fetchMock = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(errorResponse(400))
+      .mockResolvedValue(json({}));
+    const sheets = new GoogleSheetsClient(clientConfig(queue, fetchMock));
+
+    await expect(sheets.updateValues('abc', 'A1', [[1]])).rejects.toThrow(
+      MutationQueuedError
+    );
+    connectivity.goOnline();
+    await queue.replay();
+
+    const [failed] = queue.getState().failed;
+    expect(failed).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(await store.getAll()).toHaveLength(1);
+
+    await queue.retry(failed?.id ?? '');
+    expect(queue.getState()).toMatchObject({ pending: [], failed: [] });
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('should restore queued writes from its store', async () => {
+    const store = new MemoryMutationStore();
+    const offline = new MutationQueue({
+      store,
+      connectivity: fakeConnectivity(false),
+    });
+    await offline.enqueue({
+      id: 'saved',
+      api: 'calendar',
+      method: 'DELETE',
+      url: 'https://www.googleapis.com/calendar/v3/calendars/primary/events/e1',
+    });
+
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(null)));
+    const queue = new MutationQueue({
+      store,
+      connectivity: fakeConnectivity(true),
+    });
+    new GoogleCalendarClient(clientConfig(queue, fetchMock));
+    await queue.replay();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(queue.getState().pending).toEqual([]);
+  });
+});
+
+describe('GoogleApiClient offline writes', () => {
+  const event = {
+    summary: 'Sync',
+    start: { dateTime: '2026-01-22T10:00:00Z' },
+    end: { dateTime: '2026-01-22T11:00:00Z' },
+  };
+
+  it('should queue a write that fails without reaching the API', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    const calendar = new GoogleCalendarClient(
+      clientConfig(queue, () =>
+        Promise.reject(new TypeError('Failed to fetch'))
+      )
+    );
+
+    const error = await calendar
+      .createEvent('primary', event)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MutationQueuedError);
+    const [queued] = queue.getState().pending;
+    expect(queued?.id).toBe((error as MutationQueuedError).mutationId);
+    expect(JSON.parse(queued?.body ?? '{}')).toMatchObject({
+      id: expect.stringMatching(/^[0-9a-f]{32}$/) as unknown,
+    });
+  });
+
+  it('should treat a conflict on a replayed create as applied', async () => {
+    const connectivity = fakeConnectivity(false);
+    const queue = new MutationQueue({ connectivity });
+    const fetchMock = vi.fn(() => Promise.resolve(errorResponse(409)));
+    const calendar = new GoogleCalendarClient(clientConfig(queue, fetchMock));
+
+    await expect(
+      calendar.createEvent('primary', { ...event, id: 'event00001' })
+    ).rejects.toThrow(MutationQueuedError);
+    connectivity.goOnline();
+    await queue.replay();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(queue.getState()).toMatchObject({ pending: [], failed: [] });
+  });
+
+  it('should queue a new write behind writes still pending', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    await queue.enqueue({
+      id: 'earlier',
+      api: 'calendar',
+      method: 'DELETE',
+      url: 'https://www.googleapis.com/calendar/v3/calendars/primary/events/e1',
+    });
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    const calendar = new GoogleCalendarClient(clientConfig(queue, fetchMock));
+    await queue.replay();
+
+    await expect(calendar.deleteEvent('primary', 'e2')).rejects.toThrow(
+      MutationQueuedError
+    );
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      expect.stringMatching(/events\/e1$/),
+      expect.stringMatching(/events\/e1$/),
+    ]);
+
+    await queue.replay();
+    expect(fetchMock.mock.calls.slice(2).map(([url]) => url)).toEqual([
+      expect.stringMatching(/events\/e1$/),
+      expect.stringMatching(/events\/e2$/),
+    ]);
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it('should send a write straight away once the queue has drained', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    await queue.enqueue({
+      id: 'earlier',
+      api: 'calendar',
+      method: 'DELETE',
+      url: 'https://www.googleapis.com/calendar/v3/calendars/primary/events/e1',
+    });
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValue(new Response(null, { status: 204 }));
+    const calendar = new GoogleCalendarClient(clientConfig(queue, fetchMock));
+    await queue.replay();
+
+    await expect(
+      calendar.deleteEvent('primary', 'e2')
+    ).resolves.toBeUndefined();
+    expect(fetchMock.mock.calls.slice(1).map(([url]) => url)).toEqual([
+      expect.stringMatching(/events\/e1$/),
+      expect.stringMatching(/events\/e2$/),
+    ]);
+  });
+
+  it('should not queue writes rejected by the API', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    const calendar = new GoogleCalendarClient(
+      clientConfig(queue, () => Promise.resolve(errorResponse(400)))
+    );
+
+    await expect(
+      calendar.updateEvent('primary', 'e1', { summary: 'x' })
+    ).rejects.toMatchObject({ status: 400 });
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it('should replay with the newest client for the API', async () => {
+    const connectivity = fakeConnectivity(false);
+    const queue = new MutationQueue({ connectivity });
+    const expired = vi.fn(() => Promise.resolve(errorResponse(401)));
+    const fresh = vi.fn(() => Promise.resolve(new Response(null)));
+
+    await expect(
+      new GoogleCalendarClient(clientConfig(queue, expired)).deleteEvent(
+        'primary',
+        'e1'
+      )
+    ).rejects.toThrow(MutationQueuedError);
+    new GoogleCalendarClient(clientConfig(queue, fresh));
+    connectivity.goOnline();
+    await queue.replay();
+
+    expect(expired).not.toHaveBeenCalled();
+    expect(fresh).toHaveBeenCalledTimes(1);
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it("should not replay another user's writes", async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    await queue.enqueue({
+      id: 'alice-delete',
+      api: 'calendar',
+      userKey: 'alice',
+      method: 'DELETE',
+      url: 'https://www.googleapis.com/calendar/v3/calendars/primary/events/e1',
+    });
+    const alice = vi.fn(() => Promise.resolve(new Response(null)));
+    const bob = vi.fn(() => Promise.resolve(new Response(null)));
+
+    const bobCalendar = new GoogleCalendarClient({
+      ...clientConfig(queue, bob),
+      userKey: 'bob',
+    });
+    await queue.replay();
+    expect(bob).not.toHaveBeenCalled();
+
+    // Alice's pending write doesn't hold back Bob's
+    await expect(
+      bobCalendar.deleteEvent('primary', 'e2')
+    ).resolves.toBeUndefined();
+    expect(bob).toHaveBeenCalledTimes(1);
+    expect(queue.getState().pending).toHaveLength(1);
+
+    new GoogleCalendarClient({
+      ...clientConfig(queue, alice),
+      userKey: 'alice',
+    });
+    await queue.replay();
+    expect(alice).toHaveBeenCalledTimes(1);
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it('should not queue a delete that succeeded online', async () => {
+    const queue = new MutationQueue({ connectivity: fakeConnectivity(true) });
+    const fetchMock = vi.fn(() =>
+      Promise.resolve(new Response(null, { status: 204 }))
+    );
+    const calendar = new GoogleCalendarClient(clientConfig(queue, fetchMock));
+
+    await expect(
+      calendar.deleteEvent('primary', 'e1')
+    ).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(queue.getState().pending).toEqual([]);
+  });
+
+  it('should resolve a 204 delete without an offline queue', async () => {
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      fetch: () => Promise.resolve(new Response(null, { status: 204 })),
+    });
+
+    await expect(
+      calendar.deleteEvent('primary', 'e1')
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * Offline Mutation Queue
+ *
+ * Opt-in durable queue for write requests made while offline or with an
+ * expired token. Queued writes are stored as raw requests (method, URL and
+ * body) keyed by an idempotency key, and replayed in order by a client for
+ * the same API once connectivity returns or a client with a fresh token is
+ * created. Each write records the `userKey` of the client that made it and
+ * is only replayed by a client for the same user, so writes queued by one
+ * user never land in another's account.
+ *
+ * A write that fails to send may still have reached Google. Writes that
+ * can detect this declare statuses meaning "already applied" (409 for a
+ * calendar event created with a client-chosen ID, 404/410 for a delete),
+ * which count as success on replay. Others, such as appends, may be
+ * applied twice if the connection dropped after the server received them.
+ *
+ * @example
+ * const offlineQueue = new MutationQueue({ store: new IndexedDbMutationStore() });
+ * const calendar = googleApiClient('calendar', { accessToken, offlineQueue });
+ * try {
+ *   await calendar.createEvent('primary', event);
+ * } catch (error) {
+ *   if (error instanceof MutationQueuedError) showPendingBadge();
+ * }
+ */
+
+import { systemClock, type Clock } from './clock';
+import type { ApiType } from './constants';
+import { IndexedDbObjectStore } from './indexed-db';
+import { GoogleApiError, TokenExpiredError } from './types';
+
+/**
+ * A write request waiting to be sent
+ */
+export interface QueuedMutation {
+  /** Idempotency key; a key already queued is not queued again */
+  id: string;
+  /** Position in the queue */
+  seq: number;
+  /** API whose client replays the request */
+  api: ApiType;
+  /** User whose client made the request (unset for clients without one) */
+  userKey?: string;
+  method: string;
+  /** Absolute request URL */
+  url: string;
+  /** Serialized JSON body */
+  body?: string;
+  /** Rate limiter cost of the request */
+  cost?: number;
+  /** Replay statuses meaning the write was already applied */
+  appliedStatuses?: number[];
+  /** When the write was queued (ms since epoch) */
+  enqueuedAt: number;
+  /** Replay attempts so far */
+  attempts: number;
+  /** `failed` once the server rejected the write on replay */
+  status: 'pending' | 'failed';
+  /** Message of the last replay error */
+  lastError?: string;
+}
+
+/**
+ * Details of a write to queue, as provided by the client
+ */
+export type NewMutation = Pick<
+  QueuedMutation,
+  | 'id'
+  | 'api'
+  | 'userKey'
+  | 'method'
+  | 'url'
+  | 'body'
+  | 'cost'
+  | 'appliedStatuses'
+>;
+
+/**
+ * Pluggable storage backend for queued mutations
+ */
+export interface MutationStore {
+  getAll(): Promise<QueuedMutation[]>;
+  put(mutation: QueuedMutation): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * In-memory mutation store (not durable across reloads)
+ */
+export class MemoryMutationStore implements MutationStore {
+  private readonly mutations = new Map<string, QueuedMutation>();
+
+  getAll(): Promise<QueuedMutation[]> {
+    return Promise.resolve([...this.mutations.values()]);
+  }
+
+  put(mutation: QueuedMutation): Promise<void> {
+    this.mutations.set(mutation.id, mutation);
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<void> {
+    this.mutations.delete(id);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Mutation store backed by IndexedDB, surviving reloads and restarts
+ *
+ * The database is opened lazily on first use.
+ */
+export class IndexedDbMutationStore implements MutationStore {
+  private readonly db: IndexedDbObjectStore;
+
+  constructor(dbName = 'google-api-offline', storeName = 'mutations') {
+    this.db = new IndexedDbObjectStore(dbName, storeName, { keyPath: 'id' });
+  }
+
+  async getAll(): Promise<QueuedMutation[]> {
+    const result: unknown = await this.db.run('readonly', (store) =>
+      store.getAll()
+    );
+    return result as QueuedMutation[];
+  }
+
+  async put(mutation: QueuedMutation): Promise<void> {
+    await this.db.run('readwrite', (store) => store.put(mutation));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('readwrite', (store) => store.delete(id));
+  }
+}
+
+/**
+ * Online status and notification when connectivity returns
+ */
+export interface Connectivity {
+  isOnline(): boolean;
+  /** Call back whenever the browser comes back online */
+  onOnline(callback: () => void): () => void;
+}
+
+/**
+ * Connectivity from `navigator.onLine` and the window `online` event,
+ * treating hosts without them as always online
+ */
+export const browserConnectivity: Connectivity = {
+  isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+  onOnline: (callback) => {
+    if (typeof window === 'undefined') return () => undefined;
+    window.addEventListener('online', callback);
+    return () => {
+      window.removeEventListener('online', callback);
+    };
+  },
+};
+
+/**
+ * Sends a queued mutation, throwing the client's error on failure
+ */
+export type MutationExecutor = (mutation: QueuedMutation) => Promise<void>;
+
+/**
+ * Snapshot of the queue for rendering
+ */
+export interface MutationQueueState {
+  /** Writes waiting to be sent, in order */
+  pending: readonly QueuedMutation[];
+  /** Writes the server rejected on replay */
+  failed: readonly QueuedMutation[];
+  /** Whether a replay is in progress */
+  replaying: boolean;
+}
+
+/**
+ * Options for a mutation queue
+ */
+export interface MutationQueueOptions {
+  /** Storage backend (defaults to in-memory) */
+  store?: MutationStore;
+  /** Online status source (defaults to the browser's) */
+  connectivity?: Connectivity;
+  /** Time source for enqueue timestamps */
+  clock?: Clock;
+}
+
+/**
+ * Whether an error means the request could not be sent at all (network
+ * failure or expired token), so the write should be queued
+ *
+ * fetch() rejects with a TypeError when the network fails; other errors
+ * mean the request was sent or never will be.
+ */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof TypeError || error instanceof TokenExpiredError;
+}
+
+/**
+ * Whether a replay failure is worth retrying later rather than a
+ * rejection of the write itself
+ */
+function isTransientError(error: unknown): boolean {
+  return (
+    isOfflineError(error) ||
+    (error instanceof GoogleApiError &&
+      (error.status === 0 || error.status === 429 || error.status >= 500))
+  );
+}
+
+/**
+ * Durable, ordered queue of writes awaiting replay
+ */
+export class MutationQueue {
+  private readonly store: MutationStore;
+  private readonly connectivity: Connectivity;
+  private readonly clock: Clock;
+  /** Executors by API and user (see ownerKey) */
+  private readonly executors = new Map<string, MutationExecutor>();
+  private readonly listeners = new Set<() => void>();
+  private readonly loaded: Promise<void>;
+  private readonly stopListening: () => void;
+  private mutations: QueuedMutation[] = [];
+  private replaying?: Promise<void>;
+  private state: MutationQueueState = {
+    pending: [],
+    failed: [],
+    replaying: false,
+  };
+
+  constructor(options: MutationQueueOptions = {}) {
+    this.store = options.store ?? new MemoryMutationStore();
+    this.connectivity = options.connectivity ?? browserConnectivity;
+    this.clock = options.clock ?? systemClock;
+    this.loaded = this.store.getAll().then((mutations) => {
+      this.mutations = mutations.sort((a, b) => a.seq - b.seq);
+      this.publish();
+    });
+    this.stopListening = this.connectivity.onOnline(() => {
+      void this.replay();
+    });
+  }
+
+  /**
+   * Whether writes can be sent right now
+   */
+  isOnline(): boolean {
+    return this.connectivity.isOnline();
+  }
+
+  /**
+   * Whether a user's writes for an API are still waiting to be sent
+   *
+   * A new write for the API has to queue behind them to keep the order.
+   */
+  async hasPending(api: ApiType, userKey?: string): Promise<boolean> {
+    await this.loaded;
+    return this.mutations.some(
+      (m) => m.api === api && m.userKey === userKey && m.status === 'pending'
+    );
+  }
+
+  /**
+   * Queue a write, unless one with the same key is already queued
+   *
+   * @returns The queued mutation (the existing one for a repeated key)
+   */
+  async enqueue(mutation: NewMutation): Promise<QueuedMutation> {
+    await this.loaded;
+    const existing = this.mutations.find(({ id }) => id === mutation.id);
+    if (existing) return existing;
+
+    const queued: QueuedMutation = {
+      ...mutation,
+      seq: (this.mutations.at(-1)?.seq ?? 0) + 1,
+      enqueuedAt: this.clock.now(),
+      attempts: 0,
+      status: 'pending',
+    };
+    this.mutations.push(queued);
+    await this.store.put(queued);
+    this.publish();
+    return queued;
+  }
+
+  /**
+   * Register the client that replays a user's writes for an API
+   *
+   * Replaces any earlier executor for the API and user (e.g. a client with
+   * an expired token) and starts a replay. Writes queued for other users
+   * are left alone.
+   *
+   * @param userKey - User the client acts for (unset for clients without one)
+   * @returns Function that unregisters the executor
+   */
+  attach(
+    api: ApiType,
+    executor: MutationExecutor,
+    userKey?: string
+  ): () => void {
+    const key = ownerKey(api, userKey);
+    this.executors.set(key, executor);
+    void this.replay();
+    return () => {
+      if (this.executors.get(key) === executor) {
+        this.executors.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Send pending writes in order
+   *
+   * Writes are replayed one at a time, each by a client for the API and
+   * user that queued it. A transient failure (still offline, expired
+   * token, server error) leaves the write pending and holds back that
+   * user's later writes for the same API; a rejection marks it failed.
+   * Writes with no client attached for their user stay pending.
+   */
+  replay(): Promise<void> {
+    this.replaying ??= this.runReplay().finally(() => {
+      this.replaying = undefined;
+      this.publish();
+    });
+    return this.replaying;
+  }
+
+  /**
+   * Move a failed write back to pending and replay it
+   */
+  async retry(id: string): Promise<void> {
+    await this.loaded;
+    const mutation = this.mutations.find((m) => m.id === id);
+    if (mutation?.status !== 'failed') return;
+
+    await this.update({ ...mutation, status: 'pending' });
+    await this.replay();
+  }
+
+  /**
+   * Drop a write without sending it
+   */
+  async discard(id: string): Promise<void> {
+    await this.loaded;
+    this.mutations = this.mutations.filter((m) => m.id !== id);
+    await this.store.delete(id);
+    this.publish();
+  }
+
+  /**
+   * Current queue state (the same object until the queue changes)
+   */
+  getState(): MutationQueueState {
+    return this.state;
+  }
+
+  /**
+   * Listen for queue changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop listening for connectivity changes
+   */
+  dispose(): void {
+    this.stopListening();
+  }
+
+  private async runReplay(): Promise<void> {
+    await this.loaded;
+    if (!this.isOnline()) return;
+
+    this.publish(true);
+    const blocked = new Set<string>();
+    const pending = this.mutations.filter((m) => m.status === 'pending');
+
+    for (const mutation of pending) {
+      const owner = ownerKey(mutation.api, mutation.userKey);
+      const executor = this.executors.get(owner);
+      if (!executor || blocked.has(owner)) {
+        blocked.add(owner);
+        continue;
+      }
+
+      try {
+        await executor(mutation);
+        await this.discard(mutation.id);
+      } catch (error) {
+        if (
+          error instanceof GoogleApiError &&
+          mutation.appliedStatuses?.includes(error.status)
+        ) {
+          await this.discard(mutation.id);
+          continue;
+        }
+
+        const transient = isTransientError(error);
+        await this.update({
+          ...mutation,
+          attempts: mutation.attempts + 1,
+          status: transient ? 'pending' : 'failed',
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        if (transient) {
+          blocked.add(owner);
+        }
+      }
+    }
+  }
+
+  private async update(mutation: QueuedMutation): Promise<void> {
+    this.mutations = this.mutations.map((m) =>
+      m.id === mutation.id ? mutation : m
+    );
+    await this.store.put(mutation);
+    this.publish();
+  }
+
+  private publish(replaying = this.replaying !== undefined): void {
+    this.state = {
+      pending: this.mutations.filter((m) => m.status === 'pending'),
+      failed: this.mutations.filter((m) => m.status === 'failed'),
+      replaying,
+    };
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Key of the executor that replays an API's writes for a user
+ */
+function ownerKey(api: ApiType, userKey = ''): string {
+  return `${api}:${userKey}`;
+}
+
+/**
+ * Random idempotency key for a write
+ */
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
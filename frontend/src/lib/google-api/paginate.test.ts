@@ -0,0 +1,150 @@
+/**
+ * Pagination Tests
+ *
+ * Tests for the async-iterator paginator and its use by the list
+ * endpoints. Pages are served from in-memory fixtures.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Paginator, type Page } from './paginate';
+import { GoogleDriveClient } from './drive';
+import { RequestAbortedError } from './types';
+
+/**
+ * Fetcher serving pages keyed by token ('' for the first page)
+ */
+function fixturePages(pages: Record<string, Page<number>>) {
+  return vi.fn((pageToken: string | undefined) => {
+    const page = pages[pageToken ?? ''];
+    return Promise.resolve(page);
+  });
+}
+
+const THREE_PAGES: Record<string, Page<number>> = {
+  '': { items: [1, 2], nextPageToken: 'p2' },
+  p2: { items: [3, 4], nextPageToken: 'p3' },
+  p3: { items: [5] },
+};
+
+describe('Paginator', () => {
+  it('should yield every item across pages', async () => {
+    const fetchPage = fixturePages(THREE_PAGES);
+    const paginator = new Paginator(fetchPage);
+
+    const items: number[] = [];
+    for await (const item of paginator) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(paginator.nextPageToken).toBeUndefined();
+  });
+
+  it('should yield whole pages', async () => {
+    const pages: number[][] = [];
+    for await (const page of new Paginator(fixturePages(THREE_PAGES)).pages()) {
+      pages.push(page.items);
+    }
+
+    expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  it('should stop fetching on early exit and expose a resume token', async () => {
+    const fetchPage = fixturePages(THREE_PAGES);
+    const paginator = new Paginator(fetchPage);
+
+    for await (const item of paginator) {
+      if (item === 2) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(paginator.nextPageToken).toBe('p2');
+  });
+
+  it('should cap items at maxItems', async () => {
+    const fetchPage = fixturePages(THREE_PAGES);
+    const items = await new Paginator(fetchPage, { maxItems: 3 }).toArray();
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resume part-way through a page after a break', async () => {
+    const first = new Paginator(fixturePages(THREE_PAGES));
+    for await (const item of first) {
+      if (item === 3) break;
+    }
+    expect(first.nextPageToken).toBe('p2');
+    expect(first.nextPageOffset).toBe(1);
+
+    const rest = await new Paginator(fixturePages(THREE_PAGES), {
+      pageToken: first.nextPageToken,
+      pageOffset: first.nextPageOffset,
+    }).toArray();
+    expect(rest).toEqual([4, 5]);
+  });
+
+  it('should resume after the last item a maxItems cap allowed', async () => {
+    const capped = new Paginator(fixturePages(THREE_PAGES), { maxItems: 3 });
+    await capped.toArray();
+
+    const rest = await new Paginator(fixturePages(THREE_PAGES), {
+      pageToken: capped.nextPageToken,
+      pageOffset: capped.nextPageOffset,
+    }).toArray();
+    expect(rest).toEqual([4, 5]);
+  });
+
+  it('should resume from a stored page token', async () => {
+    const fetchPage = fixturePages(THREE_PAGES);
+    const items = await new Paginator(fetchPage, {
+      pageToken: 'p2',
+    }).toArray();
+
+    expect(items).toEqual([3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledWith('p2', {});
+  });
+
+  it('should stop when the signal aborts between pages', async () => {
+    const controller = new AbortController();
+    const fetchPage = fixturePages(THREE_PAGES);
+    const paginator = new Paginator(fetchPage, { signal: controller.signal });
+
+    const iterate = async () => {
+      for await (const page of paginator.pages()) {
+        if (page.nextPageToken === 'p2') controller.abort();
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GoogleDriveClient.iterateFiles', () => {
+  it('should page through files.list with pageToken', async () => {
+    const fetchMock = vi.fn((input: string) => {
+      const token = new URL(input).searchParams.get('pageToken');
+      const body = token
+        ? { files: [{ id: 'b', name: 'B', mimeType: 'text/plain' }] }
+        : {
+            files: [{ id: 'a', name: 'A', mimeType: 'text/plain' }],
+            nextPageToken: 'next',
+          };
+      return Promise.resolve(new Response(JSON.stringify(body)));
+    });
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const ids: string[] = [];
+    for await (const file of drive.iterateFiles({ pageSize: 1 })) {
+      ids.push(file.id);
+    }
+
+    expect(ids).toEqual(['a', 'b']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
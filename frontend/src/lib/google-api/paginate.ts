@@ -0,0 +1,176 @@
+/**
+ * Pagination
+ *
+ * Async-iterator wrapper around token-paginated list endpoints. Pages are
+ * fetched lazily as the caller iterates, so large result sets can be
+ * rendered as they arrive without buffering everything in memory.
+ *
+ * @example
+ * const files = drive.iterateFiles({ q: "trashed = false" }, { maxItems: 500 });
+ * for await (const file of files) {
+ *   render(file);
+ * }
+ *
+ * // Resume later from where iteration stopped
+ * const { nextPageToken: pageToken, nextPageOffset: pageOffset } = files;
+ * for await (const file of drive.iterateFiles({}, { pageToken, pageOffset })) {
+ *   render(file);
+ * }
+ */
+
+import { throwIfAborted } from './abort';
+import type { RequestOptions } from './types';
+
+/**
+ * A single page of results
+ */
+export interface Page<T> {
+  /** Items on this page (truncated to the maxItems cap) */
+  items: T[];
+  /** Token for the following page, if there is one */
+  nextPageToken?: string;
+}
+
+/**
+ * Fetches one page given its token (undefined for the first page)
+ */
+export type PageFetcher<T> = (
+  pageToken: string | undefined,
+  requestOptions: RequestOptions
+) => Promise<Page<T>>;
+
+/**
+ * Options for iterating a paginated endpoint
+ */
+export interface PaginateOptions extends RequestOptions {
+  /** Page token to start from (e.g. a stored `nextPageToken`) */
+  pageToken?: string;
+  /** Items to skip on the first page (e.g. a stored `nextPageOffset`) */
+  pageOffset?: number;
+  /** Stop after yielding this many items */
+  maxItems?: number;
+}
+
+/**
+ * Lazy iterator over a paginated list endpoint
+ *
+ * Iterate directly (`for await (const item of paginator)`) for items, or
+ * use `pages()` for whole pages. Breaking out of the loop stops fetching.
+ * Each iteration starts again from the configured page token and offset.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private readonly fetchPage: PageFetcher<T>;
+  private readonly options: PaginateOptions;
+  private resumeToken?: string;
+  private resumeOffset: number;
+
+  constructor(fetchPage: PageFetcher<T>, options: PaginateOptions = {}) {
+    this.fetchPage = fetchPage;
+    this.options = options;
+    this.resumeToken = options.pageToken;
+    this.resumeOffset = options.pageOffset ?? 0;
+  }
+
+  /**
+   * Token of the first page not fully read, for resuming iteration
+   *
+   * Undefined once the last page has been read (or while the first page
+   * is only partly read; see nextPageOffset).
+   */
+  get nextPageToken(): string | undefined {
+    return this.resumeToken;
+  }
+
+  /**
+   * Items of the `nextPageToken` page already read
+   *
+   * Non-zero when iteration stopped part-way through a page, through a
+   * `maxItems` cap or a `break`. Pass both as `pageToken` and `pageOffset`
+   * to continue with the next unread item.
+   */
+  get nextPageOffset(): number {
+    return this.resumeOffset;
+  }
+
+  /**
+   * Iterate page by page
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    for await (const { page, token, offset, complete } of this.walk()) {
+      this.resumeAt(
+        complete ? page.nextPageToken : token,
+        complete ? 0 : offset + page.items.length
+      );
+      yield page;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const { page, token, offset, complete } of this.walk()) {
+      for (const [index, item] of page.items.entries()) {
+        // Record the item as read before handing it over, in case the
+        // caller stops here
+        if (complete && index === page.items.length - 1) {
+          this.resumeAt(page.nextPageToken, 0);
+        } else {
+          this.resumeAt(token, offset + index + 1);
+        }
+        yield item;
+      }
+    }
+  }
+
+  /**
+   * Collect every item into an array
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.pages()) {
+      items.push(...page.items);
+    }
+    return items;
+  }
+
+  /**
+   * Fetch pages in order, applying the start offset and the item cap
+   *
+   * Yields each page with its own token, the index of its first item in
+   * the full page, and whether it runs to the end of the full page.
+   */
+  private async *walk(): AsyncGenerator<
+    { page: Page<T>; token?: string; offset: number; complete: boolean },
+    void,
+    undefined
+  > {
+    const { pageToken, pageOffset, maxItems, ...requestOptions } = this.options;
+    let token = pageToken;
+    let offset = pageOffset ?? 0;
+    let remaining = maxItems ?? Infinity;
+
+    while (remaining > 0) {
+      throwIfAborted(requestOptions.signal);
+
+      const page = await this.fetchPage(token, requestOptions);
+      const unread = page.items.slice(offset);
+      const items =
+        unread.length > remaining ? unread.slice(0, remaining) : unread;
+      remaining -= items.length;
+
+      yield {
+        page: { items, nextPageToken: page.nextPageToken },
+        token,
+        offset,
+        complete: items.length === unread.length,
+      };
+
+      if (!page.nextPageToken) break;
+      token = page.nextPageToken;
+      offset = 0;
+    }
+  }
+
+  private resumeAt(token: string | undefined, offset: number): void {
+    this.resumeToken = token;
+    this.resumeOffset = offset;
+  }
+}
@@ -7,7 +7,9 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { RateLimiter } from './rate-limiter';
-import type { RateLimitConfig } from './constants';
+import type { RateLimitConfig, RequestPriority } from './constants';
+import { QueueFullError, RequestAbortedError } from './types';
+import { ManualClock } from './clock';
 
 describe('RateLimiter', () => {
   // Fast config for testing (avoids long delays)
@@ -195,13 +197,21 @@ describe('RateLimiter', () => {
     });
 
     it('clears backoff state', () => {
-      void rateLimiter.backoff(10000); // Long backoff
+      void rateLimiter.backoff();
       expect(rateLimiter.isInBackoff()).toBe(true);
 
       rateLimiter.resetBackoff();
       expect(rateLimiter.isInBackoff()).toBe(false);
       expect(rateLimiter.getRemainingBackoff()).toBe(0);
     });
+
+    it('keeps a Retry-After wait until it ends', () => {
+      void rateLimiter.backoff(10000);
+
+      rateLimiter.resetBackoff();
+      expect(rateLimiter.isInBackoff()).toBe(true);
+      expect(rateLimiter.getRemainingBackoff()).toBeGreaterThanOrEqual(10000);
+    });
   });
 
   describe('getStats', () => {
@@ -260,4 +270,441 @@ describe('RateLimiter', () => {
       expect(later).toBeLessThan(initial);
     });
   });
+
+  describe('cancellation', () => {
+    it('rejects immediately with an already-aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        rateLimiter.acquire({ signal: controller.signal })
+      ).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(rateLimiter.getTokenCount()).toBe(testConfig.burstSize);
+    });
+
+    it('unblocks a pending acquire when aborted', async () => {
+      for (let i = 0; i < testConfig.burstSize; i++) {
+        rateLimiter.tryAcquire();
+      }
+
+      const controller = new AbortController();
+      const promise = rateLimiter.acquire({ signal: controller.signal });
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('cuts a backoff sleep short when aborted', async () => {
+      const controller = new AbortController();
+      const promise = rateLimiter.backoff(10_000, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+  });
+});
+
+describe('RateLimiter with injected clock', () => {
+  const config: RateLimitConfig = {
+    requestsPerMinute: 600,
+    requestsPerUserPerMinute: 60,
+    burstSize: 2,
+    windowMs: 60_000,
+  };
+
+  it('refills tokens from the injected time source', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+    limiter.tryAcquire();
+    limiter.tryAcquire();
+    expect(limiter.getTokenCount()).toBe(0);
+
+    await clock.advance(1000);
+
+    expect(limiter.getTokenCount()).toBeCloseTo(1);
+  });
+
+  it('waits for tokens on the injected timers', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+    limiter.tryAcquire();
+    limiter.tryAcquire();
+
+    let resolved = false;
+    const pending = limiter.acquire().then(() => {
+      resolved = true;
+    });
+
+    await clock.advance(500);
+    expect(resolved).toBe(false);
+
+    await clock.advance(500);
+    await pending;
+    expect(resolved).toBe(true);
+  });
+});
+
+describe('RateLimiter with stacked buckets', () => {
+  // Per-user allows 5 at once; the project only 3 per second
+  const config: RateLimitConfig = {
+    requestsPerMinute: 180,
+    requestsPerUserPerMinute: 600,
+    burstSize: 5,
+    windowMs: 60_000,
+    additionalBuckets: [{ name: 'per-10s', limit: 4, windowMs: 10_000 }],
+  };
+
+  it('reports the state of each bucket', () => {
+    const limiter = new RateLimiter(config, new ManualClock());
+    limiter.tryAcquire();
+
+    const { buckets } = limiter.getStats();
+    expect(buckets.map((bucket) => bucket.name)).toEqual([
+      'user',
+      'project',
+      'per-10s',
+    ]);
+    expect(buckets[0]).toMatchObject({ tokens: 4, capacity: 5 });
+    expect(buckets[1]).toMatchObject({ tokens: 179, capacity: 180 });
+    expect(buckets[2]).toMatchObject({ tokens: 3, capacity: 4, limit: 4 });
+  });
+
+  it('only proceeds when every bucket has capacity', () => {
+    const limiter = new RateLimiter(config, new ManualClock());
+
+    const acquired = Array.from({ length: 5 }, () => limiter.tryAcquire());
+
+    // The per-10s bucket runs out before the per-user burst
+    expect(acquired).toEqual([true, true, true, true, false]);
+    expect(limiter.getTokenCount()).toBe(0);
+  });
+
+  it('waits for the slowest bucket to refill', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+    for (let i = 0; i < 4; i++) limiter.tryAcquire();
+
+    let resolved = false;
+    const pending = limiter.acquire().then(() => {
+      resolved = true;
+    });
+
+    // The per-user bucket refills in 100ms, but per-10s needs 2.5s
+    await clock.advance(1000);
+    expect(resolved).toBe(false);
+
+    await clock.advance(1500);
+    await pending;
+    expect(resolved).toBe(true);
+  });
+
+  it('defaults to the per-user and project buckets', () => {
+    const limiter = new RateLimiter(
+      { ...config, additionalBuckets: undefined },
+      new ManualClock()
+    );
+    expect(limiter.getStats().buckets).toHaveLength(2);
+  });
+});
+
+describe('RateLimiter with weighted costs', () => {
+  const config: RateLimitConfig = {
+    requestsPerMinute: 600,
+    requestsPerUserPerMinute: 60,
+    burstSize: 10,
+    windowMs: 60_000,
+    writeQuota: { requestsPerMinute: 600, requestsPerUserPerMinute: 60 },
+  };
+
+  it('takes the requested number of tokens', async () => {
+    const limiter = new RateLimiter(config, new ManualClock());
+
+    await limiter.acquire(4);
+
+    expect(limiter.getTokenCount()).toBe(6);
+  });
+
+  it('charges reads and writes to separate buckets', () => {
+    const limiter = new RateLimiter(config, new ManualClock());
+
+    expect(limiter.tryAcquire(10, 'write')).toBe(true);
+    expect(limiter.tryAcquire(1, 'write')).toBe(false);
+
+    expect(limiter.getTokenCount('read')).toBe(10);
+    expect(limiter.tryAcquire(1, 'read')).toBe(true);
+    expect(
+      limiter.getStats().buckets.map(({ name, operation }) => [name, operation])
+    ).toEqual([
+      ['user', 'read'],
+      ['project', 'read'],
+      ['user-write', 'write'],
+      ['project-write', 'write'],
+    ]);
+  });
+
+  it('waits until the buckets can pay the full cost', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+    limiter.tryAcquire(10);
+
+    let resolved = false;
+    const pending = limiter.acquire(3).then(() => {
+      resolved = true;
+    });
+
+    await clock.advance(2000);
+    expect(resolved).toBe(false);
+
+    await clock.advance(1000);
+    await pending;
+    expect(resolved).toBe(true);
+  });
+
+  it('lets a cost above capacity through once the bucket is full', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+
+    await limiter.acquire(15);
+
+    // The overdraft must be repaid before the next request
+    expect(limiter.getTokenCount()).toBe(-5);
+    expect(limiter.tryAcquire()).toBe(false);
+  });
+});
+
+describe('RateLimiter waiter queue', () => {
+  // One token per second, no burst
+  const config: RateLimitConfig = {
+    requestsPerMinute: 600,
+    requestsPerUserPerMinute: 60,
+    burstSize: 1,
+    windowMs: 60_000,
+    maxQueueLength: 3,
+  };
+
+  function drained(clock: ManualClock): RateLimiter {
+    const limiter = new RateLimiter(config, clock);
+    limiter.tryAcquire();
+    return limiter;
+  }
+
+  it('serves waiters by priority, FIFO within a priority', async () => {
+    const clock = new ManualClock();
+    const limiter = drained(clock);
+    const order: string[] = [];
+    const queue = (label: string, priority: RequestPriority) =>
+      limiter.acquire({ priority }).then(() => order.push(label));
+
+    const pending = [
+      queue('background', 'background'),
+      queue('normal-1', 'normal'),
+      queue('interactive', 'interactive'),
+    ];
+    await clock.advance(1000);
+    pending.push(queue('normal-2', 'normal'));
+    await clock.advance(3000);
+    await Promise.all(pending);
+
+    expect(order).toEqual([
+      'interactive',
+      'normal-1',
+      'normal-2',
+      'background',
+    ]);
+  });
+
+  it('does not let cheap requests overtake the head of the queue', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter({ ...config, burstSize: 3 }, clock);
+    limiter.tryAcquire(3);
+    const order: string[] = [];
+
+    const pending = [
+      limiter.acquire(3).then(() => order.push('expensive')),
+      limiter.acquire(1).then(() => order.push('cheap')),
+    ];
+    expect(limiter.tryAcquire()).toBe(false);
+
+    await clock.advance(4000);
+    await Promise.all(pending);
+    expect(order).toEqual(['expensive', 'cheap']);
+  });
+
+  it('throws QueueFullError once maxQueueLength calls are waiting', async () => {
+    const clock = new ManualClock();
+    const limiter = drained(clock);
+    const pending = [limiter.acquire(), limiter.acquire(), limiter.acquire()];
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(QueueFullError);
+
+    await clock.advance(3000);
+    await Promise.all(pending);
+  });
+
+  it('removes aborted waiters from the queue', async () => {
+    const clock = new ManualClock();
+    const limiter = drained(clock);
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire({ signal: controller.signal });
+    const next = limiter.acquire();
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(limiter.getStats().queue.depth).toBe(1);
+
+    await clock.advance(1000);
+    await next;
+    expect(limiter.getStats().queue.depth).toBe(0);
+  });
+
+  it('reports queue depth and wait times', async () => {
+    const clock = new ManualClock();
+    const limiter = drained(clock);
+
+    const pending = [
+      limiter.acquire({ priority: 'interactive' }),
+      limiter.acquire({ priority: 'background' }),
+    ];
+    await clock.advance(500);
+
+    const waiting = limiter.getStats().queue;
+    expect(waiting.depth).toBe(2);
+    expect(waiting.depthByPriority).toEqual({
+      interactive: 1,
+      normal: 0,
+      background: 1,
+    });
+    expect(waiting.oldestWaitMs).toBe(500);
+
+    await clock.advance(1500);
+    await Promise.all(pending);
+
+    const { waits } = limiter.getStats().queue;
+    expect(waits.interactive).toEqual({
+      count: 1,
+      averageMs: 1000,
+      maxMs: 1000,
+    });
+    expect(waits.background).toEqual({
+      count: 1,
+      averageMs: 2000,
+      maxMs: 2000,
+    });
+  });
+});
+
+describe('RateLimiter adaptive rate', () => {
+  const config: RateLimitConfig = {
+    requestsPerMinute: 600,
+    requestsPerUserPerMinute: 60,
+    burstSize: 5,
+    windowMs: 60_000,
+    adaptive: {
+      floor: 15,
+      ceiling: 90,
+      increaseStep: 10,
+      successesBeforeIncrease: 3,
+      decreaseCooldownMs: 1000,
+    },
+  };
+
+  function userLimit(limiter: RateLimiter): number | undefined {
+    return limiter.getStats().buckets.find((b) => b.name === 'user')?.limit;
+  }
+
+  it('halves the per-user rate on a rate-limit response', () => {
+    const limiter = new RateLimiter(config, new ManualClock());
+
+    limiter.recordRateLimited();
+
+    expect(limiter.getStats().adaptive?.rate).toBe(30);
+    expect(userLimit(limiter)).toBe(30);
+  });
+
+  it('counts a burst of rate-limit responses once per cooldown', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+
+    limiter.recordRateLimited();
+    limiter.recordRateLimited();
+    expect(limiter.getStats().adaptive?.rate).toBe(30);
+
+    await clock.advance(1000);
+    limiter.recordRateLimited();
+    limiter.recordRateLimited();
+    expect(limiter.getStats().adaptive?.rate).toBe(15);
+  });
+
+  it('raises the rate after sustained success, up to the ceiling', () => {
+    const limiter = new RateLimiter(config, new ManualClock());
+
+    for (let i = 0; i < 12; i++) {
+      limiter.recordSuccess();
+    }
+
+    expect(limiter.getStats().adaptive?.rate).toBe(90);
+    expect(limiter.getStats().adaptive?.history.map((c) => c.rate)).toEqual([
+      70, 80, 90,
+    ]);
+  });
+
+  it('caps the rate at the configured rate by default', () => {
+    const limiter = new RateLimiter(
+      { ...config, adaptive: { successesBeforeIncrease: 1 } },
+      new ManualClock()
+    );
+
+    limiter.recordSuccess();
+    limiter.recordRateLimited();
+
+    expect(limiter.getStats().adaptive).toMatchObject({
+      rate: 30,
+      floor: 15,
+      ceiling: 60,
+    });
+  });
+
+  it('refills at the adapted rate', async () => {
+    const clock = new ManualClock();
+    const limiter = new RateLimiter(config, clock);
+    limiter.tryAcquire(5);
+
+    limiter.recordRateLimited();
+    await clock.advance(2000);
+
+    // 30 per minute is one token every two seconds
+    expect(limiter.getTokenCount()).toBeCloseTo(1);
+  });
+
+  it('persists the learned rate through storage', () => {
+    const entries = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => entries.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        entries.set(key, value);
+      },
+    };
+    const first = new RateLimiter(config, new ManualClock(), { storage });
+    first.recordRateLimited();
+
+    const second = new RateLimiter(config, new ManualClock(), { storage });
+
+    expect(second.getStats().adaptive?.rate).toBe(30);
+    expect(second.getStats().adaptive?.history).toEqual([]);
+  });
+
+  it('leaves the rate alone without adaptive config', () => {
+    const limiter = new RateLimiter(
+      { ...config, adaptive: undefined },
+      new ManualClock()
+    );
+
+    limiter.recordRateLimited();
+
+    expect(limiter.getStats().adaptive).toBeUndefined();
+    expect(userLimit(limiter)).toBe(60);
+  });
 });
@@ -2,21 +2,362 @@
  * Token Bucket Rate Limiter
  *
  * Implements a token bucket algorithm for rate limiting API requests.
- * The bucket starts full and tokens are consumed per request. Tokens
+ * Each bucket starts full and tokens are consumed per request. Tokens
  * are replenished at a steady rate based on the configured limits.
  *
+ * Several buckets are stacked - per-user, per-project and any additional
+ * quota windows (such as Drive's 20,000 requests per 100 seconds) - and a
+ * request only proceeds when every bucket has a token available.
+ *
+ * Requests that cannot be served at once wait in a queue ordered by
+ * priority (interactive, normal, background) and FIFO within a priority.
+ * Only the head of the queue is served, so a cheap background request
+ * never overtakes an expensive interactive one.
+ *
+ * In adaptive mode the per-user rate follows AIMD: it is cut on every
+ * rate-limit response and raised slowly after sustained success, so the
+ * limiter settles near the quota the server actually enforces.
+ *
+ * Limiters created with shared storage (normally `localStorage`) keep their
+ * bucket and backoff state there, so every tab signed in as the same user
+ * draws on the same tokens instead of each holding a full quota. Tokens
+ * are taken under a Web Lock (`navigator.locks`) so tabs can't interleave
+ * their reads and writes of the shared buckets.
+ *
  * @see https://en.wikipedia.org/wiki/Token_bucket
  */
 
-import { RETRY_CONFIG, type RateLimitConfig } from './constants';
+import { sleep, throwIfAborted, toAbortError } from './abort';
+import { systemClock, type Clock, type TimerHandle } from './clock';
+import {
+  DEFAULT_MAX_QUEUE_LENGTH,
+  REQUEST_PRIORITIES,
+  RETRY_CONFIG,
+  type AdaptiveRateConfig,
+  type OperationKind,
+  type RateLimitBucketConfig,
+  type RateLimitConfig,
+  type RequestPriority,
+} from './constants';
+import { QueueFullError } from './types';
 
 /**
  * Rate limiter state
  */
 interface RateLimiterState {
+  backoffUntil: number;
+  /** End of the wait the server asked for with Retry-After */
+  retryAfterUntil: number;
+}
+
+/**
+ * Synchronous key/value storage shared between tabs (e.g. `localStorage`)
+ */
+export type LimiterStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+/**
+ * Exclusive locks shared between tabs (e.g. `navigator.locks`)
+ */
+export interface LimiterLocks {
+  /** Run `callback` while holding the named lock */
+  request<T>(name: string, callback: () => T): Promise<T>;
+}
+
+/**
+ * Options for sharing limiter state
+ */
+export interface RateLimiterOptions {
+  /** Storage holding bucket and backoff state shared with other tabs */
+  storage?: LimiterStorage;
+  /** Key prefix for this limiter's entries (e.g. user and API) */
+  storageKey?: string;
+  /**
+   * Locks that make taking shared tokens atomic across tabs (defaults to
+   * `navigator.locks` when storage is set and the browser has it)
+   */
+  locks?: LimiterLocks;
+}
+
+/**
+ * Persisted state of a token bucket
+ */
+interface BucketState {
   tokens: number;
   lastRefill: number;
-  backoffUntil: number;
+}
+
+/**
+ * Storage slot for one value, ignoring storage failures (quota, privacy
+ * mode) so the limiter falls back to its in-memory state
+ */
+class SharedSlot {
+  private readonly storage: LimiterStorage;
+  private readonly key: string;
+
+  constructor(storage: LimiterStorage, key: string) {
+    this.storage = storage;
+    this.key = key;
+  }
+
+  read(): unknown {
+    try {
+      const raw = this.storage.getItem(this.key);
+      return raw === null ? undefined : (JSON.parse(raw) as unknown);
+    } catch {
+      return undefined;
+    }
+  }
+
+  write(value: unknown): void {
+    try {
+      this.storage.setItem(this.key, JSON.stringify(value));
+    } catch {
+      // Keep going with in-memory state
+    }
+  }
+}
+
+function isBucketState(value: unknown): value is BucketState {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as BucketState).tokens === 'number' &&
+    typeof (value as BucketState).lastRefill === 'number'
+  );
+}
+
+/**
+ * A queued acquire() call
+ */
+interface Waiter {
+  cost: number;
+  operation?: OperationKind;
+  priority: RequestPriority;
+  enqueuedAt: number;
+  resolve: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Wait times of granted acquire() calls for one priority
+ */
+export interface WaitStats {
+  /** Calls granted */
+  count: number;
+  /** Mean time spent waiting, in milliseconds */
+  averageMs: number;
+  /** Longest time spent waiting, in milliseconds */
+  maxMs: number;
+}
+
+/**
+ * Snapshot of the waiter queue for debugging
+ */
+export interface QueueStats {
+  /** Calls currently waiting */
+  depth: number;
+  /** Calls currently waiting, per priority */
+  depthByPriority: Record<RequestPriority, number>;
+  /** Waiters allowed before acquire() throws QueueFullError */
+  maxLength: number;
+  /** How long the longest-waiting call has waited, in milliseconds */
+  oldestWaitMs: number;
+  /** Wait times of granted calls, per priority */
+  waits: Record<RequestPriority, WaitStats>;
+}
+
+/**
+ * Build a record with one entry per priority
+ */
+function perPriority<T>(
+  value: (priority: RequestPriority) => T
+): Record<RequestPriority, T> {
+  return Object.fromEntries(
+    REQUEST_PRIORITIES.map((priority) => [priority, value(priority)])
+  ) as Record<RequestPriority, T>;
+}
+
+/**
+ * A change of the adaptive per-user rate
+ */
+export interface RateChange {
+  /** Time of the change, in milliseconds since the epoch */
+  at: number;
+  /** New per-user rate, in requests per window */
+  rate: number;
+  /** What triggered the change */
+  reason: 'rate-limited' | 'sustained-success';
+}
+
+/**
+ * Snapshot of adaptive rate tuning for debugging
+ */
+export interface AdaptiveRateStats {
+  /** Current per-user rate, in requests per window */
+  rate: number;
+  /** Configured per-user rate the limiter started from */
+  baseRate: number;
+  floor: number;
+  ceiling: number;
+  /** Successful requests since the last change */
+  successStreak: number;
+  /** Most recent changes, oldest first */
+  history: RateChange[];
+}
+
+/**
+ * Rate changes kept for getStats()
+ */
+const RATE_HISTORY_LIMIT = 50;
+
+/**
+ * Snapshot of a single bucket for debugging
+ */
+export interface BucketStats {
+  /** Bucket name ('user', 'project' or an additional bucket name) */
+  name: string;
+  /** Tokens currently available */
+  tokens: number;
+  /** Maximum tokens held at once */
+  capacity: number;
+  /** Requests allowed per window (as adapted, in adaptive mode) */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Kind of operation charged to this bucket, if restricted */
+  operation?: OperationKind;
+}
+
+/**
+ * A single token bucket refilled continuously at limit/windowMs
+ *
+ * A cost larger than the capacity waits for a full bucket and then leaves
+ * it in debt, so the excess is paid back before the next request.
+ *
+ * A shared bucket reloads its state from storage before every read and
+ * writes it back after every take. The limiter holds its cross-tab lock
+ * around the two, so other tabs can't interleave.
+ */
+class TokenBucket {
+  readonly name: string;
+  private readonly config: RateLimitBucketConfig;
+  private readonly capacity: number;
+  private readonly shared?: SharedSlot;
+  private tokensPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(config: RateLimitBucketConfig, now: number, shared?: SharedSlot) {
+    this.name = config.name;
+    this.config = config;
+    this.capacity = config.capacity ?? config.limit;
+    this.tokensPerMs = config.limit / config.windowMs;
+    this.shared = shared;
+    // Start with a full bucket
+    this.tokens = this.capacity;
+    this.lastRefill = now;
+  }
+
+  /**
+   * Tokens available after refilling up to `now`
+   */
+  available(now: number): number {
+    const state = this.shared?.read();
+    if (isBucketState(state)) {
+      this.tokens = state.tokens;
+      this.lastRefill = state.lastRefill;
+    }
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.tokensPerMs
+    );
+    this.lastRefill = now;
+    return this.tokens;
+  }
+
+  /**
+   * Configured requests per window, before any adaptive scaling
+   */
+  get baseLimit(): number {
+    return this.config.limit;
+  }
+
+  /**
+   * Change the refill rate from `now` on
+   */
+  setLimit(limit: number, now: number): void {
+    // Settle refills at the old rate first
+    this.available(now);
+    this.tokensPerMs = limit / this.config.windowMs;
+  }
+
+  /**
+   * Whether this bucket is charged for the given kind of operation
+   */
+  appliesTo(operation: OperationKind): boolean {
+    return !this.config.operation || this.config.operation === operation;
+  }
+
+  /**
+   * Whether the bucket can pay for a request of the given cost
+   */
+  canTake(now: number, cost: number): boolean {
+    return this.available(now) >= Math.min(cost, this.capacity);
+  }
+
+  /**
+   * Consume tokens (callers check canTake first)
+   */
+  take(cost: number): void {
+    this.tokens -= cost;
+    this.shared?.write({ tokens: this.tokens, lastRefill: this.lastRefill });
+  }
+
+  /**
+   * Milliseconds until the bucket can pay for the given cost
+   */
+  waitTime(now: number, cost: number): number {
+    const tokensNeeded = Math.min(cost, this.capacity) - this.available(now);
+    return tokensNeeded > 0 ? Math.ceil(tokensNeeded / this.tokensPerMs) : 0;
+  }
+
+  stats(now: number): BucketStats {
+    return {
+      name: this.name,
+      tokens: this.available(now),
+      capacity: this.capacity,
+      limit: this.tokensPerMs * this.config.windowMs,
+      windowMs: this.config.windowMs,
+      operation: this.config.operation,
+    };
+  }
+}
+
+/**
+ * Options for acquiring a token
+ */
+export interface AcquireOptions {
+  /** Signal that cancels the wait for a token */
+  signal?: AbortSignal;
+  /** Kind of operation, selecting read or write buckets (default: 'read') */
+  operation?: OperationKind;
+  /** Position in the waiter queue (default: 'normal') */
+  priority?: RequestPriority;
+}
+
+/**
+ * Options for a backoff call
+ */
+export interface BackoffOptions {
+  /** Signal that cuts the backoff sleep short */
+  signal?: AbortSignal;
+  /**
+   * Attempt number of the request that is backing off. When provided, the
+   * exponential delay is derived from it instead of the shared counter.
+   */
+  attempt?: number;
 }
 
 /**
@@ -24,72 +365,291 @@ interface RateLimiterState {
  *
  * Features:
  * - Smooth rate limiting with burst allowance
+ * - Stacked per-user, per-project and additional quota buckets
+ * - Weighted costs and separate read/write quotas
  * - Automatic token replenishment
  * - Exponential backoff on 429 responses
  * - Non-blocking with async acquire
+ * - Priority waiter queue, FIFO within each priority
+ * - Optional cross-tab sharing through storage, under a cross-tab lock
  */
 export class RateLimiter {
   private state: RateLimiterState;
-  private readonly config: RateLimitConfig;
-  private readonly tokensPerMs: number;
+  private readonly buckets: TokenBucket[];
+  private readonly clock: Clock;
+  private readonly sharedBackoff?: SharedSlot;
+  private readonly sharedRetryAfter?: SharedSlot;
+  private readonly locks?: LimiterLocks;
+  private readonly lockName: string;
+  /** A locked drain has been requested and hasn't started yet */
+  private drainRequested = false;
+  private readonly maxQueueLength: number;
+  private readonly queue: Waiter[] = [];
+  private readonly waitTotals = new Map<
+    RequestPriority,
+    { count: number; totalMs: number; maxMs: number }
+  >();
+  /** Wake-up for the head of the queue */
+  private drainTimer?: TimerHandle;
   private currentBackoffAttempt = 0;
+  private readonly adaptive?: Required<AdaptiveRateConfig>;
+  private readonly baseUserRate: number;
+  private readonly sharedRate?: SharedSlot;
+  private userRate: number;
+  private successStreak = 0;
+  private lastDecreaseAt = -Infinity;
+  private readonly rateHistory: RateChange[] = [];
 
-  constructor(config: RateLimitConfig) {
-    this.config = config;
-    // Calculate token replenishment rate: tokens per millisecond
-    this.tokensPerMs = config.requestsPerUserPerMinute / config.windowMs;
-    // Start with a full bucket
-    this.state = {
-      tokens: config.burstSize,
-      lastRefill: Date.now(),
-      backoffUntil: 0,
-    };
+  /**
+   * @param config - Rate limit configuration
+   * @param clock - Time source and timers (defaults to the system clock)
+   * @param options - Storage for sharing state with other tabs
+   */
+  constructor(
+    config: RateLimitConfig,
+    clock: Clock = systemClock,
+    options: RateLimiterOptions = {}
+  ) {
+    this.clock = clock;
+    const { storage, storageKey = 'rate-limiter' } = options;
+    this.locks = storage ? (options.locks ?? browserLocks()) : undefined;
+    this.lockName = storageKey;
+    const slot = (name: string) =>
+      storage ? new SharedSlot(storage, `${storageKey}:${name}`) : undefined;
+    const now = this.clock.now();
+    const { writeQuota } = config;
+    const buckets: RateLimitBucketConfig[] = [
+      {
+        name: 'user',
+        limit: config.requestsPerUserPerMinute,
+        windowMs: config.windowMs,
+        capacity: config.burstSize,
+        operation: writeQuota ? 'read' : undefined,
+      },
+      {
+        name: 'project',
+        limit: config.requestsPerMinute,
+        windowMs: config.windowMs,
+        operation: writeQuota ? 'read' : undefined,
+      },
+    ];
+    if (writeQuota) {
+      buckets.push(
+        {
+          name: 'user-write',
+          limit: writeQuota.requestsPerUserPerMinute,
+          windowMs: config.windowMs,
+          capacity: writeQuota.burstSize ?? config.burstSize,
+          operation: 'write',
+        },
+        {
+          name: 'project-write',
+          limit: writeQuota.requestsPerMinute,
+          windowMs: config.windowMs,
+          operation: 'write',
+        }
+      );
+    }
+    buckets.push(...(config.additionalBuckets ?? []));
+
+    this.buckets = buckets.map(
+      (bucket) => new TokenBucket(bucket, now, slot(bucket.name))
+    );
+    this.sharedBackoff = slot('backoff');
+    this.sharedRetryAfter = slot('retry-after');
+    this.maxQueueLength = config.maxQueueLength ?? DEFAULT_MAX_QUEUE_LENGTH;
+    this.state = { backoffUntil: 0, retryAfterUntil: 0 };
+
+    this.baseUserRate = config.requestsPerUserPerMinute;
+    this.userRate = this.baseUserRate;
+    if (config.adaptive) {
+      this.adaptive = {
+        decreaseFactor: 0.5,
+        increaseStep: Math.max(1, this.baseUserRate * 0.05),
+        successesBeforeIncrease: 20,
+        decreaseCooldownMs: 5000,
+        floor: Math.max(1, this.baseUserRate * 0.25),
+        ceiling: this.baseUserRate,
+        ...config.adaptive,
+      };
+      // Resume from the rate learned in an earlier session
+      this.sharedRate = slot('adaptive-rate');
+      const learned = this.sharedRate?.read();
+      this.applyUserRate(
+        typeof learned === 'number' ? learned : this.baseUserRate,
+        now
+      );
+    }
   }
 
   /**
-   * Acquire a token, waiting if necessary
+   * Acquire tokens, waiting if necessary
    *
-   * @returns Promise that resolves when a token is acquired
+   * Calls that cannot be served at once join the waiter queue behind
+   * earlier calls of the same or higher priority.
+   *
+   * @param cost - Tokens to take from each applicable bucket (default: 1)
+   * @param options - Acquire options (cancellation signal, operation kind,
+   *   priority)
+   * @returns Promise that resolves when the tokens are acquired
+   * @throws QueueFullError if maxQueueLength calls are already waiting
+   * @throws RequestAbortedError or RequestTimeoutError if the signal aborts
    */
-  async acquire(): Promise<void> {
-    // First check if we're in backoff
-    await this.waitForBackoff();
-
-    // Refill tokens based on elapsed time
-    this.refillTokens();
+  acquire(options?: AcquireOptions): Promise<void>;
+  acquire(cost: number, options?: AcquireOptions): Promise<void>;
+  async acquire(
+    costOrOptions: number | AcquireOptions = 1,
+    options: AcquireOptions = {}
+  ): Promise<void> {
+    if (typeof costOrOptions !== 'number') {
+      return this.acquire(1, costOrOptions);
+    }
+    const cost = costOrOptions;
+    const { signal, operation, priority = 'normal' } = options;
+    throwIfAborted(signal);
 
-    // If we have tokens, consume one
-    if (this.state.tokens >= 1) {
-      this.state.tokens -= 1;
+    // Serve at once when nobody is waiting and every bucket can pay.
+    // Shared limiters always go through the queue, which drains under the
+    // cross-tab lock.
+    if (
+      !this.locks &&
+      this.queue.length === 0 &&
+      !this.isInBackoff() &&
+      this.takeTokens(cost, operation)
+    ) {
+      this.recordWait(priority, 0);
       return;
     }
 
-    // No tokens available, calculate wait time
-    const waitTime = this.calculateWaitTime();
-    await this.sleep(waitTime);
+    if (this.queue.length >= this.maxQueueLength) {
+      throw new QueueFullError(this.maxQueueLength);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        cost,
+        operation,
+        priority,
+        enqueuedAt: this.clock.now(),
+        resolve,
+        signal,
+      };
 
-    // Retry after waiting
-    return this.acquire();
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(toAbortError(signal));
+          this.drain();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.enqueue(waiter);
+      this.drain();
+    });
   }
 
   /**
-   * Try to acquire a token without waiting
-   *
-   * @returns true if token acquired, false if would need to wait
+   * Insert a waiter after every waiter of the same or higher priority
    */
-  tryAcquire(): boolean {
-    if (this.isInBackoff()) {
-      return false;
+  private enqueue(waiter: Waiter): void {
+    const rank = REQUEST_PRIORITIES.indexOf(waiter.priority);
+    const index = this.queue.findIndex(
+      (queued) => REQUEST_PRIORITIES.indexOf(queued.priority) > rank
+    );
+    if (index === -1) {
+      this.queue.push(waiter);
+    } else {
+      this.queue.splice(index, 0, waiter);
+    }
+  }
+
+  /**
+   * Serve waiters, under the cross-tab lock when the limiter has one
+   */
+  private drain(): void {
+    if (!this.locks) {
+      this.drainNow();
+      return;
     }
+    if (this.drainRequested) return;
 
-    this.refillTokens();
+    this.drainRequested = true;
+    this.locks
+      .request(this.lockName, () => {
+        this.drainRequested = false;
+        this.drainNow();
+      })
+      .catch(() => {
+        // Lock unavailable (e.g. the document is going away)
+        this.drainRequested = false;
+        this.drainNow();
+      });
+  }
 
-    if (this.state.tokens >= 1) {
-      this.state.tokens -= 1;
-      return true;
+  /**
+   * Serve waiters from the head of the queue while tokens last, then
+   * schedule a wake-up for when the head can be served
+   */
+  private drainNow(): void {
+    if (this.drainTimer !== undefined) {
+      this.clock.clearTimeout(this.drainTimer);
+      this.drainTimer = undefined;
     }
 
-    return false;
+    for (let head = this.queue.at(0); head; head = this.queue.at(0)) {
+      let delay = this.getRemainingBackoff();
+      if (delay === 0 && !this.takeTokens(head.cost, head.operation)) {
+        // At least 1ms, in case rounding leaves a sliver of a token short
+        delay = Math.max(1, this.calculateWaitTime(head.cost, head.operation));
+      }
+
+      if (delay > 0) {
+        this.drainTimer = this.clock.setTimeout(() => {
+          this.drainTimer = undefined;
+          this.drain();
+        }, delay);
+        return;
+      }
+
+      this.queue.shift();
+      if (head.onAbort) {
+        head.signal?.removeEventListener('abort', head.onAbort);
+      }
+      this.recordWait(head.priority, this.clock.now() - head.enqueuedAt);
+      head.resolve();
+    }
+  }
+
+  private recordWait(priority: RequestPriority, waitedMs: number): void {
+    const totals = this.waitTotals.get(priority) ?? {
+      count: 0,
+      totalMs: 0,
+      maxMs: 0,
+    };
+    totals.count += 1;
+    totals.totalMs += waitedMs;
+    totals.maxMs = Math.max(totals.maxMs, waitedMs);
+    this.waitTotals.set(priority, totals);
+  }
+
+  /**
+   * Try to acquire tokens without waiting
+   *
+   * Fails while other calls are queued, so it never jumps the queue.
+   * It can't wait for the cross-tab lock, so on a shared limiter it may
+   * race other tabs; prefer acquire() there.
+   *
+   * @param cost - Tokens to take from each applicable bucket (default: 1)
+   * @param operation - Kind of operation (default: 'read')
+   * @returns true if tokens acquired, false if would need to wait
+   */
+  tryAcquire(cost = 1, operation?: OperationKind): boolean {
+    if (this.queue.length > 0 || this.isInBackoff()) {
+      return false;
+    }
+
+    return this.takeTokens(cost, operation);
   }
 
   /**
@@ -97,46 +657,165 @@ export class RateLimiter {
    * Triggers exponential backoff
    *
    * @param retryAfterMs - Optional retry-after hint from API
+   * @param options - Per-request backoff options
    */
-  async backoff(retryAfterMs?: number): Promise<void> {
+  async backoff(
+    retryAfterMs?: number,
+    options: BackoffOptions = {}
+  ): Promise<void> {
     this.currentBackoffAttempt += 1;
 
-    const baseDelay = retryAfterMs ?? this.calculateBackoffDelay();
+    const baseDelay =
+      retryAfterMs ??
+      this.calculateBackoffDelay(options.attempt ?? this.currentBackoffAttempt);
     const jitter = baseDelay * RETRY_CONFIG.jitterFactor * Math.random();
     const totalDelay = baseDelay + jitter;
 
-    this.state.backoffUntil = Date.now() + totalDelay;
-    await this.sleep(totalDelay);
+    const until = this.clock.now() + totalDelay;
+    this.setBackoffUntil(Math.max(until, this.getRetryAfterUntil()));
+    if (retryAfterMs !== undefined) {
+      this.state.retryAfterUntil = until;
+      this.sharedRetryAfter?.write(until);
+    }
+    await sleep(totalDelay, options.signal, this.clock);
   }
 
   /**
    * Reset backoff state (call on successful request)
+   *
+   * A wait the server asked for with Retry-After is kept until it ends:
+   * a request that was already in flight succeeding doesn't lift it.
    */
   resetBackoff(): void {
     this.currentBackoffAttempt = 0;
-    this.state.backoffUntil = 0;
+    const retryAfterUntil = this.getRetryAfterUntil();
+    const keepUntil = retryAfterUntil > this.clock.now() ? retryAfterUntil : 0;
+    if (this.getBackoffUntil() !== keepUntil) {
+      this.setBackoffUntil(keepUntil);
+      // Waiters were held back by the backoff
+      this.drain();
+    }
+  }
+
+  /**
+   * Record a successful response (adaptive mode)
+   *
+   * Raises the per-user rate by one step after each run of successes.
+   */
+  recordSuccess(): void {
+    if (!this.adaptive) return;
+
+    this.successStreak += 1;
+    if (this.successStreak >= this.adaptive.successesBeforeIncrease) {
+      this.changeUserRate(
+        this.userRate + this.adaptive.increaseStep,
+        'sustained-success'
+      );
+    }
+  }
+
+  /**
+   * Record a rate-limit response (adaptive mode)
+   *
+   * Cuts the per-user rate, at most once per cooldown period.
+   */
+  recordRateLimited(): void {
+    if (!this.adaptive) return;
+
+    this.successStreak = 0;
+    const now = this.clock.now();
+    if (now - this.lastDecreaseAt < this.adaptive.decreaseCooldownMs) {
+      return;
+    }
+    this.lastDecreaseAt = now;
+    this.changeUserRate(
+      this.userRate * this.adaptive.decreaseFactor,
+      'rate-limited'
+    );
+  }
+
+  private changeUserRate(rate: number, reason: RateChange['reason']): void {
+    const now = this.clock.now();
+    const previous = this.userRate;
+    this.successStreak = 0;
+    this.applyUserRate(rate, now);
+    if (this.userRate === previous) return;
+
+    this.sharedRate?.write(this.userRate);
+    this.rateHistory.push({ at: now, rate: this.userRate, reason });
+    if (this.rateHistory.length > RATE_HISTORY_LIMIT) {
+      this.rateHistory.shift();
+    }
+  }
+
+  /**
+   * Clamp a per-user rate and apply it to the per-user buckets, scaling
+   * the per-user write quota by the same ratio
+   */
+  private applyUserRate(rate: number, now: number): void {
+    if (!this.adaptive) return;
+
+    const { floor, ceiling } = this.adaptive;
+    this.userRate = Math.min(ceiling, Math.max(floor, rate));
+    const scale = this.userRate / this.baseUserRate;
+    for (const bucket of this.buckets) {
+      if (bucket.name === 'user' || bucket.name === 'user-write') {
+        bucket.setLimit(bucket.baseLimit * scale, now);
+      }
+    }
   }
 
   /**
    * Check if currently in backoff period
    */
   isInBackoff(): boolean {
-    return Date.now() < this.state.backoffUntil;
+    return this.clock.now() < this.getBackoffUntil();
   }
 
   /**
    * Get remaining backoff time in milliseconds
    */
   getRemainingBackoff(): number {
-    return Math.max(0, this.state.backoffUntil - Date.now());
+    return Math.max(0, this.getBackoffUntil() - this.clock.now());
+  }
+
+  /**
+   * End of the backoff period, as last set by any tab sharing this limiter
+   */
+  private getBackoffUntil(): number {
+    const shared = this.sharedBackoff?.read();
+    if (typeof shared === 'number') {
+      this.state.backoffUntil = shared;
+    }
+    return this.state.backoffUntil;
   }
 
   /**
-   * Get current token count
+   * End of the last Retry-After wait, as set by any tab sharing this limiter
    */
-  getTokenCount(): number {
-    this.refillTokens();
-    return this.state.tokens;
+  private getRetryAfterUntil(): number {
+    const shared = this.sharedRetryAfter?.read();
+    if (typeof shared === 'number') {
+      this.state.retryAfterUntil = shared;
+    }
+    return this.state.retryAfterUntil;
+  }
+
+  private setBackoffUntil(until: number): void {
+    this.state.backoffUntil = until;
+    this.sharedBackoff?.write(until);
+  }
+
+  /**
+   * Get current token count (the lowest across the applicable buckets)
+   *
+   * @param operation - Kind of operation (default: 'read')
+   */
+  getTokenCount(operation: OperationKind = 'read'): number {
+    const now = this.clock.now();
+    return Math.min(
+      ...this.bucketsFor(operation).map((bucket) => bucket.available(now))
+    );
   }
 
   /**
@@ -147,69 +826,113 @@ export class RateLimiter {
     isInBackoff: boolean;
     remainingBackoffMs: number;
     backoffAttempt: number;
+    buckets: BucketStats[];
+    queue: QueueStats;
+    adaptive?: AdaptiveRateStats;
   } {
+    const now = this.clock.now();
     return {
       tokens: this.getTokenCount(),
       isInBackoff: this.isInBackoff(),
       remainingBackoffMs: this.getRemainingBackoff(),
       backoffAttempt: this.currentBackoffAttempt,
+      buckets: this.buckets.map((bucket) => bucket.stats(now)),
+      queue: this.getQueueStats(now),
+      adaptive: this.adaptive && {
+        rate: this.userRate,
+        baseRate: this.baseUserRate,
+        floor: this.adaptive.floor,
+        ceiling: this.adaptive.ceiling,
+        successStreak: this.successStreak,
+        history: [...this.rateHistory],
+      },
     };
   }
 
-  /**
-   * Refill tokens based on elapsed time since last refill
-   */
-  private refillTokens(): void {
-    const now = Date.now();
-    const elapsed = now - this.state.lastRefill;
-    const tokensToAdd = elapsed * this.tokensPerMs;
-
-    this.state.tokens = Math.min(
-      this.config.burstSize,
-      this.state.tokens + tokensToAdd
-    );
-    this.state.lastRefill = now;
+  private getQueueStats(now: number): QueueStats {
+    return {
+      depth: this.queue.length,
+      depthByPriority: perPriority(
+        (priority) =>
+          this.queue.filter((waiter) => waiter.priority === priority).length
+      ),
+      maxLength: this.maxQueueLength,
+      oldestWaitMs: Math.max(
+        0,
+        ...this.queue.map((waiter) => now - waiter.enqueuedAt)
+      ),
+      waits: perPriority((priority) => {
+        const totals = this.waitTotals.get(priority);
+        return {
+          count: totals?.count ?? 0,
+          averageMs: totals ? totals.totalMs / totals.count : 0,
+          maxMs: totals?.maxMs ?? 0,
+        };
+      }),
+    };
   }
 
   /**
-   * Calculate wait time until next token is available
+   * Buckets charged for the given kind of operation
    */
-  private calculateWaitTime(): number {
-    const tokensNeeded = 1 - this.state.tokens;
-    return Math.ceil(tokensNeeded / this.tokensPerMs);
+  private bucketsFor(operation: OperationKind = 'read'): TokenBucket[] {
+    return this.buckets.filter((bucket) => bucket.appliesTo(operation));
   }
 
   /**
-   * Calculate exponential backoff delay
+   * Charge every applicable bucket if all of them can pay
    */
-  private calculateBackoffDelay(): number {
-    const delay =
-      RETRY_CONFIG.initialBackoffMs *
-      Math.pow(RETRY_CONFIG.backoffMultiplier, this.currentBackoffAttempt);
-    return Math.min(delay, RETRY_CONFIG.maxBackoffMs);
+  private takeTokens(cost: number, operation?: OperationKind): boolean {
+    const now = this.clock.now();
+    const buckets = this.bucketsFor(operation);
+    if (!buckets.every((bucket) => bucket.canTake(now, cost))) {
+      return false;
+    }
+    for (const bucket of buckets) {
+      bucket.take(cost);
+    }
+    return true;
   }
 
   /**
-   * Wait until backoff period ends
+   * Calculate wait time until every applicable bucket can pay
    */
-  private async waitForBackoff(): Promise<void> {
-    const remaining = this.getRemainingBackoff();
-    if (remaining > 0) {
-      await this.sleep(remaining);
-    }
+  private calculateWaitTime(cost: number, operation?: OperationKind): number {
+    const now = this.clock.now();
+    return Math.max(
+      ...this.bucketsFor(operation).map((bucket) => bucket.waitTime(now, cost))
+    );
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Calculate exponential backoff delay for an attempt number
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private calculateBackoffDelay(attempt: number): number {
+    const delay =
+      RETRY_CONFIG.initialBackoffMs *
+      Math.pow(RETRY_CONFIG.backoffMultiplier, attempt);
+    return Math.min(delay, RETRY_CONFIG.maxBackoffMs);
   }
 }
 
 /**
  * Create a rate limiter for a specific API type
  */
-export function createRateLimiter(config: RateLimitConfig): RateLimiter {
-  return new RateLimiter(config);
+export function createRateLimiter(
+  config: RateLimitConfig,
+  clock?: Clock
+): RateLimiter {
+  return new RateLimiter(config, clock);
+}
+
+/**
+ * Look up `navigator.locks`, which older browsers and non-browser hosts
+ * lack
+ */
+function browserLocks(): LimiterLocks | undefined {
+  if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+    return undefined;
+  }
+  const { locks } = navigator;
+  return { request: (name, callback) => locks.request(name, callback) };
 }
@@ -0,0 +1,162 @@
+/**
+ * Response Schema Tests
+ *
+ * Tests for the schema builders and for response validation modes in the
+ * clients.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  array,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  union,
+} from './schema';
+import { GoogleCalendarClient } from './calendar';
+import { GoogleDriveClient } from './drive';
+import { fileListResponseSchema } from './drive/schemas';
+import { Telemetry, type TelemetryEvent } from './telemetry';
+import { ResponseValidationError } from './types';
+
+interface Item {
+  id: string;
+  count?: number;
+  kind: 'a' | 'b';
+}
+
+const itemSchema = object<Item>({
+  id: string(),
+  count: optional(number()),
+  kind: literal('a', 'b'),
+});
+
+describe('schema builders', () => {
+  it('should accept matching values and extra properties', () => {
+    expect(
+      itemSchema.check({ id: 'x', kind: 'a', extra: true }, '$')
+    ).toBeUndefined();
+  });
+
+  it('should report the path of a missing required property', () => {
+    expect(array(itemSchema).check([{ id: 'x', kind: 'a' }, {}], '$')).toEqual({
+      path: '$[1].id',
+      expected: 'string',
+      received: 'undefined',
+    });
+  });
+
+  it('should reject values outside a literal set', () => {
+    expect(itemSchema.check({ id: 'x', kind: 'c' }, '$')).toEqual({
+      path: '$.kind',
+      expected: '"a" | "b"',
+      received: '"c"',
+    });
+  });
+
+  it('should accept any member of a union', () => {
+    const schema = union<string | null>(string(), literal(null));
+    expect(schema.check(null, '$')).toBeUndefined();
+    expect(schema.check(1, '$')?.expected).toBe('string | null');
+  });
+
+  it('should flag missing files in a Drive listing', () => {
+    expect(fileListResponseSchema.check({}, '$')?.path).toBe('$.files');
+  });
+});
+
+describe('response validation', () => {
+  const eventWithoutStart = { id: 'event-1', end: { date: '2026-01-01' } };
+
+  function calendarReturning(
+    body: unknown,
+    validation: 'off' | 'warn' | 'strict'
+  ): GoogleCalendarClient {
+    return new GoogleCalendarClient({
+      accessToken: 'token',
+      validation,
+      fetch: () => Promise.resolve(new Response(JSON.stringify(body))),
+    });
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not check responses when validation is off', async () => {
+    const calendar = calendarReturning(eventWithoutStart, 'off');
+    await expect(calendar.getEvent('primary', 'event-1')).resolves.toEqual(
+      eventWithoutStart
+    );
+  });
+
+  it('should report a mismatch and return the response in warn mode', async () => {
+    const telemetry = new Telemetry();
+    const events: TelemetryEvent[] = [];
+    telemetry.subscribe((event) => events.push(event));
+    const warn = vi.spyOn(console, 'warn');
+    const calendar = new GoogleCalendarClient({
+      accessToken: 'token',
+      validation: 'warn',
+      telemetry,
+      fetch: () =>
+        Promise.resolve(new Response(JSON.stringify(eventWithoutStart))),
+    });
+
+    await expect(calendar.getEvent('primary', 'event-1')).resolves.toEqual(
+      eventWithoutStart
+    );
+    const start = events.find((event) => event.type === 'request-start');
+    expect(events.find((event) => event.type === 'schema-mismatch')).toEqual(
+      expect.objectContaining({
+        api: 'calendar',
+        method: 'GET',
+        requestId: start?.requestId,
+        path: '$.start',
+      })
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should log and return the response in warn mode without telemetry', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const calendar = calendarReturning(eventWithoutStart, 'warn');
+
+    await expect(calendar.getEvent('primary', 'event-1')).resolves.toEqual(
+      eventWithoutStart
+    );
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('$.start'));
+  });
+
+  it('should throw ResponseValidationError with the path in strict mode', async () => {
+    const calendar = calendarReturning(eventWithoutStart, 'strict');
+
+    const error = await calendar
+      .getEvent('primary', 'event-1')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect((error as ResponseValidationError).path).toBe('$.start');
+    expect((error as ResponseValidationError).apiType).toBe('calendar');
+  });
+
+  it('should pass valid responses in strict mode', async () => {
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      validation: 'strict',
+      fetch: () =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({
+              files: [{ id: 'a', name: 'A', mimeType: 'text/plain' }],
+            })
+          )
+        ),
+    });
+
+    const result = await drive.listFiles();
+    expect(result.files).toHaveLength(1);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Response Schemas
+ *
+ * Minimal runtime schemas for checking API responses against the types in
+ * the per-API `types.ts` files. Schemas are typed against those interfaces,
+ * so a schema that disagrees with its type fails to compile.
+ *
+ * Object schemas list the properties they check; unlisted properties and
+ * unknown extra fields are accepted, since Google adds fields over time and
+ * partial responses (`fields=`) omit optional ones.
+ *
+ * @example
+ * const userSchema = object<DriveUser>({
+ *   displayName: string(),
+ *   emailAddress: optional(string()),
+ * });
+ * const issue = userSchema.check(json, '$');
+ */
+
+/**
+ * How a client treats responses that fail their schema
+ *
+ * - `off`: no validation
+ * - `warn`: report the failure as a `schema-mismatch` telemetry event and
+ *   return the response unchanged
+ * - `strict`: throw a ResponseValidationError
+ */
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * First mismatch found while checking a value
+ */
+export interface SchemaIssue {
+  /** Path to the failing value (e.g. `$.files[2].name`) */
+  path: string;
+  /** Description of the expected value */
+  expected: string;
+  /** Description of the value actually received */
+  received: string;
+}
+
+/**
+ * Runtime check for values of type T
+ */
+export interface Schema<T> {
+  /** Human-readable description of accepted values */
+  readonly description: string;
+  /** Return the first mismatch, or undefined if the value matches */
+  check(value: unknown, path: string): SchemaIssue | undefined;
+  /** Type marker only; never set at runtime */
+  readonly __type?: T;
+}
+
+/**
+ * Schema for objects, exposing its shape so it can be extended
+ */
+export interface ObjectSchema<T> extends Schema<T> {
+  /** Schemas for the checked properties */
+  readonly shape: ObjectShape<T>;
+}
+
+/**
+ * Property schemas for an object type; unlisted properties are not checked
+ */
+export type ObjectShape<T> = {
+  [K in keyof T]?: Schema<T[K]>;
+};
+
+/**
+ * Describe a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(kind: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    description: kind,
+    check: (value, path) =>
+      typeof value === kind
+        ? undefined
+        : { path, expected: kind, received: describe(value) },
+  };
+}
+
+/**
+ * Accept any string
+ */
+export function string(): Schema<string> {
+  return primitive('string');
+}
+
+/**
+ * Accept any number
+ */
+export function number(): Schema<number> {
+  return primitive('number');
+}
+
+/**
+ * Accept any boolean
+ */
+export function boolean(): Schema<boolean> {
+  return primitive('boolean');
+}
+
+/**
+ * Accept any value without checking it
+ */
+export function unknown<T = unknown>(): Schema<T> {
+  return { description: 'unknown', check: () => undefined };
+}
+
+/**
+ * Accept one of a fixed set of values
+ */
+export function literal<const V extends readonly (string | number | null)[]>(
+  ...values: V
+): Schema<V[number]> {
+  const description = values.map((value) => JSON.stringify(value)).join(' | ');
+  return {
+    description,
+    check: (value, path) =>
+      values.includes(value as V[number])
+        ? undefined
+        : {
+            path,
+            expected: description,
+            received: value === undefined ? 'undefined' : JSON.stringify(value),
+          },
+  };
+}
+
+/**
+ * Accept undefined in addition to the wrapped schema
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} | undefined`,
+    check: (value, path) =>
+      value === undefined ? undefined : schema.check(value, path),
+  };
+}
+
+/**
+ * Accept a value matching any of the given schemas
+ */
+export function union<T>(...schemas: Schema<T>[]): Schema<T> {
+  const description = schemas.map((schema) => schema.description).join(' | ');
+  return {
+    description,
+    check: (value, path) =>
+      schemas.some((schema) => schema.check(value, path) === undefined)
+        ? undefined
+        : { path, expected: description, received: describe(value) },
+  };
+}
+
+/**
+ * Accept an array whose items all match the item schema
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check: (value, path) => {
+      if (!Array.isArray(value)) {
+        return { path, expected: 'array', received: describe(value) };
+      }
+      for (let i = 0; i < value.length; i++) {
+        const issue = item.check(value[i], `${path}[${String(i)}]`);
+        if (issue) return issue;
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Accept an object whose values all match the value schema
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `Record<string, ${value.description}>`,
+    check: (input, path) => {
+      if (!isPlainObject(input)) {
+        return { path, expected: 'object', received: describe(input) };
+      }
+      for (const [key, entry] of Object.entries(input)) {
+        const issue = value.check(entry, `${path}.${key}`);
+        if (issue) return issue;
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Accept an object whose listed properties match their schemas
+ */
+export function object<T>(shape: ObjectShape<T>): ObjectSchema<T> {
+  const entries = Object.entries(shape) as [string, Schema<unknown>][];
+  return {
+    description: 'object',
+    shape,
+    check: (value, path) => {
+      if (!isPlainObject(value)) {
+        return { path, expected: 'object', received: describe(value) };
+      }
+      for (const [key, schema] of entries) {
+        const issue = schema.check(value[key], `${path}.${key}`);
+        if (issue) return issue;
+      }
+      return undefined;
+    },
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
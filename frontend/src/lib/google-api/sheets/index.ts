@@ -8,9 +8,18 @@
  */
 
 import { GoogleApiClient } from '../client';
-import type { ClientConfig } from '../types';
+import {
+  buildFieldMask,
+  selectSchema,
+  selectSchemaByFields,
+  type FieldMask,
+  type SelectFields,
+} from '../fields';
+import type { Schema } from '../schema';
+import type { PaginateOptions, Paginator } from '../paginate';
+import type { ClientConfig, RequestOptions } from '../types';
 import type { DriveFile, FileListResponse } from '../drive/types';
-import { GOOGLE_MIME_TYPES } from '../constants';
+import { API_ENDPOINTS, GOOGLE_MIME_TYPES } from '../constants';
 import type {
   AppendValuesOptions,
   AppendValuesResponse,
@@ -18,18 +27,26 @@ import type {
   BatchUpdateValuesRequest,
   BatchUpdateValuesResponse,
   CellValue,
+  GetSpreadsheetOptions,
   GetValuesOptions,
   Spreadsheet,
   UpdateValuesOptions,
   UpdateValuesResponse,
   ValueRange,
 } from './types';
+import {
+  appendValuesResponseSchema,
+  batchGetValuesResponseSchema,
+  batchUpdateValuesResponseSchema,
+  spreadsheetSchema,
+  updateValuesResponseSchema,
+  valueRangeSchema,
+} from './schemas';
+import { fileListResponseSchema } from '../drive/schemas';
 
 // Re-export types for convenience
 export * from './types';
 
-const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
-
 /**
  * Google Sheets API client
  *
@@ -52,43 +69,119 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * Uses Drive API to find files with spreadsheet MIME type.
    *
    * @param pageSize - Maximum number of spreadsheets to return
+   * @param requestOptions - Cancellation signal and timeout
    * @returns List of spreadsheet files
    */
-  async listSpreadsheets(pageSize = 25): Promise<DriveFile[]> {
-    // Use Drive API to list spreadsheets
+  async listSpreadsheets(
+    pageSize = 25,
+    requestOptions: RequestOptions = {}
+  ): Promise<DriveFile[]> {
+    const response = await this.listSpreadsheetsPage(
+      pageSize,
+      undefined,
+      requestOptions
+    );
+    return response.files;
+  }
+
+  /**
+   * Iterate over all spreadsheets accessible to the user, fetching pages
+   * lazily
+   *
+   * @param paginateOptions - Start token, item cap, cancellation and timeout
+   * @returns Paginator over spreadsheet files
+   */
+  iterateSpreadsheets(
+    paginateOptions: PaginateOptions = {}
+  ): Paginator<DriveFile> {
+    return this.paginate(async (pageToken, requestOptions) => {
+      const response = await this.listSpreadsheetsPage(
+        100,
+        pageToken,
+        requestOptions
+      );
+      return { items: response.files, nextPageToken: response.nextPageToken };
+    }, paginateOptions);
+  }
+
+  /**
+   * Fetch one page of spreadsheets from the Drive API
+   */
+  private async listSpreadsheetsPage(
+    pageSize: number,
+    pageToken: string | undefined,
+    requestOptions: RequestOptions
+  ): Promise<FileListResponse> {
+    // Use Drive API to list spreadsheets (charged to the Drive quota)
     const params = new URLSearchParams({
       q: `mimeType='${GOOGLE_MIME_TYPES.SPREADSHEET}'`,
-      fields: 'files(id,name,mimeType,modifiedTime,webViewLink,iconLink)',
+      fields:
+        'nextPageToken,files(id,name,mimeType,modifiedTime,webViewLink,iconLink)',
       orderBy: 'modifiedTime desc',
       pageSize: String(pageSize),
     });
+    if (pageToken) params.set('pageToken', pageToken);
 
-    const response = await this.request<FileListResponse>(
-      `${DRIVE_API_BASE}/files?${params.toString()}`
+    return this.request<FileListResponse>(
+      `${API_ENDPOINTS.drive}/files?${params.toString()}`,
+      undefined,
+      this.withCacheTtl('listSpreadsheets', requestOptions),
+      fileListResponseSchema
     );
-
-    return response.files;
   }
 
   /**
    * Get a spreadsheet's metadata
    *
    * @param spreadsheetId - The spreadsheet ID
-   * @param includeGridData - Whether to include cell data
-   * @returns Spreadsheet metadata
+   * @param options - Grid data and field selection (a boolean is treated
+   *   as `includeGridData`)
+   * @param requestOptions - Cancellation signal and timeout
+   * @returns Spreadsheet metadata, narrowed to the selected fields when a
+   *   field mask is given
+   *
+   * @example
+   * const { sheets: tabs } = await sheets.getSpreadsheet(id, {
+   *   fields: ['spreadsheetId', { sheets: [{ properties: ['sheetId', 'title'] }] }],
+   * });
    */
+  getSpreadsheet<const M extends FieldMask<Spreadsheet>>(
+    spreadsheetId: string,
+    options: GetSpreadsheetOptions & { fields: M },
+    requestOptions?: RequestOptions
+  ): Promise<SelectFields<Spreadsheet, M>>;
+  getSpreadsheet(
+    spreadsheetId: string,
+    options?: boolean | GetSpreadsheetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<Spreadsheet>;
   async getSpreadsheet(
     spreadsheetId: string,
-    includeGridData = false
+    options: boolean | GetSpreadsheetOptions = false,
+    requestOptions: RequestOptions = {}
   ): Promise<Spreadsheet> {
+    const { includeGridData, fields } =
+      typeof options === 'boolean' ? { includeGridData: options } : options;
+
     const params: Record<string, string> = {};
     if (includeGridData) {
       params.includeGridData = 'true';
     }
 
+    let schema: Schema<Spreadsheet> = spreadsheetSchema;
+    if (typeof fields === 'string') {
+      params.fields = fields;
+      schema = selectSchemaByFields(spreadsheetSchema, fields);
+    } else if (fields) {
+      params.fields = buildFieldMask(fields);
+      schema = selectSchema(spreadsheetSchema, fields) as Schema<Spreadsheet>;
+    }
+
     return this.get<Spreadsheet>(
       `/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
-      params
+      params,
+      this.withCacheTtl('getSpreadsheet', requestOptions),
+      schema
     );
   }
 
@@ -98,6 +191,7 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * @param spreadsheetId - The spreadsheet ID
    * @param range - A1 notation range (e.g., "Sheet1!A1:B10")
    * @param options - Value rendering options
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Cell values as 2D array
    *
    * @example
@@ -107,7 +201,8 @@ export class GoogleSheetsClient extends GoogleApiClient {
   async getValues(
     spreadsheetId: string,
     range: string,
-    options: GetValuesOptions = {}
+    options: GetValuesOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<CellValue[][]> {
     const params: Record<string, string> = {};
     if (options.valueRenderOption) {
@@ -119,7 +214,9 @@ export class GoogleSheetsClient extends GoogleApiClient {
 
     const response = await this.get<ValueRange>(
       `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}`,
-      params
+      params,
+      requestOptions,
+      valueRangeSchema
     );
 
     return response.values ?? [];
@@ -131,12 +228,14 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * @param spreadsheetId - The spreadsheet ID
    * @param ranges - Array of A1 notation ranges
    * @param options - Value rendering options
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Map of range to values
    */
   async batchGetValues(
     spreadsheetId: string,
     ranges: string[],
-    options: GetValuesOptions = {}
+    options: GetValuesOptions = {},
+    requestOptions: RequestOptions = {}
   ): Promise<BatchGetValuesResponse> {
     const params = new URLSearchParams();
     for (const range of ranges) {
@@ -151,7 +250,9 @@ export class GoogleSheetsClient extends GoogleApiClient {
 
     return this.get<BatchGetValuesResponse>(
       `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchGet`,
-      Object.fromEntries(params)
+      Object.fromEntries(params),
+      requestOptions,
+      batchGetValuesResponseSchema
     );
   }
 
@@ -162,6 +263,7 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * @param range - A1 notation range
    * @param values - 2D array of values to write
    * @param options - Update options
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Update result
    *
    * @example
@@ -174,7 +276,8 @@ export class GoogleSheetsClient extends GoogleApiClient {
     spreadsheetId: string,
     range: string,
     values: CellValue[][],
-    options: UpdateValuesOptions = { valueInputOption: 'USER_ENTERED' }
+    options: UpdateValuesOptions = { valueInputOption: 'USER_ENTERED' },
+    requestOptions: RequestOptions = {}
   ): Promise<UpdateValuesResponse> {
     const params: Record<string, string> = {
       valueInputOption: options.valueInputOption,
@@ -191,7 +294,9 @@ export class GoogleSheetsClient extends GoogleApiClient {
         range,
         majorDimension: 'ROWS',
         values,
-      }
+      },
+      this.withOfflineQueue(this.withCost('updateValues', requestOptions)),
+      updateValuesResponseSchema
     );
   }
 
@@ -200,15 +305,19 @@ export class GoogleSheetsClient extends GoogleApiClient {
    *
    * @param spreadsheetId - The spreadsheet ID
    * @param request - Batch update request
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Batch update result
    */
   async batchUpdateValues(
     spreadsheetId: string,
-    request: BatchUpdateValuesRequest
+    request: BatchUpdateValuesRequest,
+    requestOptions: RequestOptions = {}
   ): Promise<BatchUpdateValuesResponse> {
     return this.post<BatchUpdateValuesResponse>(
       `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchUpdate`,
-      request
+      request,
+      this.withOfflineQueue(this.withCost('batchUpdateValues', requestOptions)),
+      batchUpdateValuesResponseSchema
     );
   }
 
@@ -219,8 +328,12 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * @param range - A1 notation of the table (e.g., "Sheet1!A:Z")
    * @param values - Rows to append
    * @param options - Append options
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Append result
    *
+   * Appends are not idempotent: a write queued offline after it already
+   * reached Google is appended again on replay.
+   *
    * @example
    * await sheets.appendRow('abc123', 'Sheet1', ['Alice', 30, 'alice@example.com']);
    */
@@ -228,7 +341,8 @@ export class GoogleSheetsClient extends GoogleApiClient {
     spreadsheetId: string,
     range: string,
     values: CellValue[][],
-    options: AppendValuesOptions = { valueInputOption: 'USER_ENTERED' }
+    options: AppendValuesOptions = { valueInputOption: 'USER_ENTERED' },
+    requestOptions: RequestOptions = {}
   ): Promise<AppendValuesResponse> {
     const params = new URLSearchParams({
       valueInputOption: options.valueInputOption,
@@ -243,7 +357,9 @@ export class GoogleSheetsClient extends GoogleApiClient {
         range,
         majorDimension: 'ROWS',
         values,
-      }
+      },
+      this.withOfflineQueue(this.withCost('appendValues', requestOptions)),
+      appendValuesResponseSchema
     );
   }
 
@@ -253,14 +369,22 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * @param spreadsheetId - The spreadsheet ID
    * @param sheetName - Name of the sheet (tab)
    * @param values - Row values to append
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Append result
    */
   async appendRow(
     spreadsheetId: string,
     sheetName: string,
-    values: CellValue[]
+    values: CellValue[],
+    requestOptions: RequestOptions = {}
   ): Promise<AppendValuesResponse> {
-    return this.appendValues(spreadsheetId, `${sheetName}!A:Z`, [values]);
+    return this.appendValues(
+      spreadsheetId,
+      `${sheetName}!A:Z`,
+      [values],
+      undefined,
+      requestOptions
+    );
   }
 
   /**
@@ -268,10 +392,17 @@ export class GoogleSheetsClient extends GoogleApiClient {
    *
    * @param spreadsheetId - The spreadsheet ID
    * @param range - A1 notation range to clear
+   * @param requestOptions - Cancellation signal and timeout
    */
-  async clearValues(spreadsheetId: string, range: string): Promise<void> {
+  async clearValues(
+    spreadsheetId: string,
+    range: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<void> {
     await this.post<undefined>(
-      `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}:clear`
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}:clear`,
+      undefined,
+      this.withOfflineQueue(this.withCost('clearValues', requestOptions))
     );
   }
 
@@ -279,11 +410,20 @@ export class GoogleSheetsClient extends GoogleApiClient {
    * Create a new spreadsheet
    *
    * @param title - Title for the new spreadsheet
+   * @param requestOptions - Cancellation signal and timeout
    * @returns Created spreadsheet
    */
-  async createSpreadsheet(title: string): Promise<Spreadsheet> {
-    return this.post<Spreadsheet>('/spreadsheets', {
-      properties: { title },
-    });
+  async createSpreadsheet(
+    title: string,
+    requestOptions: RequestOptions = {}
+  ): Promise<Spreadsheet> {
+    return this.post<Spreadsheet>(
+      '/spreadsheets',
+      {
+        properties: { title },
+      },
+      this.withCost('createSpreadsheet', requestOptions),
+      spreadsheetSchema
+    );
   }
 }
@@ -0,0 +1,98 @@
+/**
+ * Google Sheets API Response Schemas
+ *
+ * Runtime schemas for the response types in `./types`, used when the
+ * client's validation mode is `warn` or `strict`.
+ */
+
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  union,
+} from '../schema';
+import type {
+  AppendValuesResponse,
+  BatchGetValuesResponse,
+  BatchUpdateValuesResponse,
+  CellValue,
+  Sheet,
+  SheetProperties,
+  Spreadsheet,
+  SpreadsheetProperties,
+  UpdateValuesResponse,
+  ValueRange,
+} from './types';
+
+export const cellValueSchema = union<CellValue>(
+  string(),
+  number(),
+  boolean(),
+  literal(null)
+);
+
+export const valueRangeSchema = object<ValueRange>({
+  range: string(),
+  majorDimension: optional(literal('ROWS', 'COLUMNS')),
+  values: optional(array(array(cellValueSchema))),
+});
+
+export const sheetPropertiesSchema = object<SheetProperties>({
+  sheetId: number(),
+  title: string(),
+  index: number(),
+  sheetType: optional(literal('GRID', 'OBJECT', 'DATA_SOURCE')),
+  hidden: optional(boolean()),
+  rightToLeft: optional(boolean()),
+});
+
+export const sheetSchema = object<Sheet>({
+  properties: sheetPropertiesSchema,
+});
+
+export const spreadsheetPropertiesSchema = object<SpreadsheetProperties>({
+  title: string(),
+  locale: optional(string()),
+  timeZone: optional(string()),
+});
+
+export const spreadsheetSchema = object<Spreadsheet>({
+  spreadsheetId: string(),
+  properties: spreadsheetPropertiesSchema,
+  sheets: optional(array(sheetSchema)),
+  spreadsheetUrl: optional(string()),
+});
+
+export const updateValuesResponseSchema = object<UpdateValuesResponse>({
+  spreadsheetId: string(),
+  updatedRange: string(),
+  updatedRows: number(),
+  updatedColumns: number(),
+  updatedCells: number(),
+  updatedData: optional(valueRangeSchema),
+});
+
+export const appendValuesResponseSchema = object<AppendValuesResponse>({
+  spreadsheetId: string(),
+  tableRange: string(),
+  updates: updateValuesResponseSchema,
+});
+
+export const batchGetValuesResponseSchema = object<BatchGetValuesResponse>({
+  spreadsheetId: string(),
+  valueRanges: array(valueRangeSchema),
+});
+
+export const batchUpdateValuesResponseSchema =
+  object<BatchUpdateValuesResponse>({
+    spreadsheetId: string(),
+    totalUpdatedRows: number(),
+    totalUpdatedColumns: number(),
+    totalUpdatedCells: number(),
+    totalUpdatedSheets: number(),
+    responses: array(updateValuesResponseSchema),
+  });
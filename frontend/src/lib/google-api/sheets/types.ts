@@ -5,6 +5,8 @@
  * @see https://developers.google.com/sheets/api/reference/rest
  */
 
+import type { FieldMask } from '../fields';
+
 /**
  * Spreadsheet metadata
  */
@@ -277,6 +279,19 @@ export interface ValueRange {
   values?: CellValue[][];
 }
 
+/**
+ * Options for getting a spreadsheet
+ */
+export interface GetSpreadsheetOptions {
+  /** Whether to include cell data */
+  includeGridData?: boolean;
+  /**
+   * Fields to include in response (partial response). A field mask
+   * narrows the returned spreadsheet type to the selected fields.
+   */
+  fields?: string | FieldMask<Spreadsheet>;
+}
+
 /**
  * Options for getting values
  */
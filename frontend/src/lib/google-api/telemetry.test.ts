@@ -0,0 +1,171 @@
+/**
+ * Telemetry Tests
+ *
+ * Tests for the events emitted by the client and for the in-memory
+ * aggregator's per-endpoint metrics.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Telemetry,
+  TelemetryAggregator,
+  type TelemetryEvent,
+} from './telemetry';
+import { ManualClock } from './clock';
+import { MemoryCacheStore } from './cache';
+import { GoogleDriveClient } from './drive';
+
+function endEvent(durationMs: number, ok = true): TelemetryEvent {
+  return {
+    type: 'request-end',
+    api: 'drive',
+    endpoint: '/files/:id',
+    method: 'GET',
+    requestId: 1,
+    at: 0,
+    status: ok ? 200 : 500,
+    ok,
+    durationMs,
+    attempts: 1,
+  };
+}
+
+describe('TelemetryAggregator', () => {
+  it('should report latency percentiles and error rate per endpoint', () => {
+    const telemetry = new Telemetry();
+    const aggregator = new TelemetryAggregator(telemetry);
+
+    for (let ms = 1; ms <= 100; ms++) {
+      telemetry.emit(endEvent(ms, ms % 10 !== 0));
+    }
+
+    expect(aggregator.snapshot()).toEqual([
+      expect.objectContaining({
+        api: 'drive',
+        endpoint: '/files/:id',
+        method: 'GET',
+        requests: 100,
+        errors: 10,
+        errorRate: 0.1,
+        p50Ms: 50,
+        p95Ms: 95,
+      }),
+    ]);
+  });
+
+  it('should keep only the most recent latency samples', () => {
+    const telemetry = new Telemetry();
+    const aggregator = new TelemetryAggregator(telemetry, { maxSamples: 2 });
+
+    [1000, 10, 20].forEach((ms) => {
+      telemetry.emit(endEvent(ms));
+    });
+
+    expect(aggregator.snapshot()[0]).toMatchObject({
+      requests: 3,
+      p95Ms: 20,
+    });
+  });
+
+  it('should stop recording once disposed', () => {
+    const telemetry = new Telemetry();
+    const aggregator = new TelemetryAggregator(telemetry);
+
+    aggregator.dispose();
+    telemetry.emit(endEvent(10));
+
+    expect(aggregator.snapshot()).toEqual([]);
+  });
+});
+
+describe('GoogleApiClient telemetry', () => {
+  function driveFile() {
+    return new Response(
+      JSON.stringify({ id: 'abc', name: 'A', mimeType: 'text/plain' }),
+      { headers: { ETag: '"v1"' } }
+    );
+  }
+
+  it('should emit start, retry, backoff and end for a retried request', async () => {
+    const clock = new ManualClock();
+    const telemetry = new Telemetry();
+    const events: TelemetryEvent[] = [];
+    telemetry.subscribe((event) => events.push(event));
+    const fetchMock = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ error: { code: 503, message: 'x' } }), {
+          status: 503,
+        })
+      )
+      .mockResolvedValueOnce(driveFile());
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      clock,
+      telemetry,
+      fetch: fetchMock,
+    });
+
+    const pending = drive.getFile('abc');
+    await clock.advance(5000);
+    await pending;
+
+    expect(events.map((event) => event.type)).toEqual([
+      'request-start',
+      'retry',
+      'backoff',
+      'request-end',
+    ]);
+    expect(events.every((event) => event.endpoint === '/files/:id')).toBe(true);
+    expect(events.at(-1)).toMatchObject({
+      status: 200,
+      ok: true,
+      attempts: 2,
+    });
+  });
+
+  it('should count failed requests as errors', async () => {
+    const telemetry = new Telemetry();
+    const aggregator = new TelemetryAggregator(telemetry);
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      telemetry,
+      fetch: () =>
+        Promise.resolve(
+          new Response(
+            JSON.stringify({ error: { code: 404, message: 'Not found' } }),
+            { status: 404 }
+          )
+        ),
+    });
+
+    await expect(drive.getFile('missing')).rejects.toThrow();
+
+    expect(aggregator.snapshot()[0]).toMatchObject({
+      requests: 1,
+      errors: 1,
+      errorRate: 1,
+    });
+  });
+
+  it('should emit cache hits without a request', async () => {
+    const telemetry = new Telemetry();
+    const events: TelemetryEvent[] = [];
+    telemetry.subscribe((event) => events.push(event));
+    const drive = new GoogleDriveClient({
+      accessToken: 'token',
+      telemetry,
+      cache: { store: new MemoryCacheStore() },
+      fetch: () => Promise.resolve(driveFile()),
+    });
+
+    await drive.getFile('abc');
+    await drive.getFile('abc');
+
+    expect(events.map((event) => event.type)).toEqual([
+      'request-start',
+      'request-end',
+      'cache-hit',
+    ]);
+  });
+});
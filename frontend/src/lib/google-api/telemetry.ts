@@ -0,0 +1,327 @@
+/**
+ * Telemetry
+ *
+ * Events describing each request's lifecycle: start and end (with latency
+ * and status), retries, backoff, waits for rate limiter tokens, cache hits
+ * and responses that don't match their schema. Every event carries the API
+ * and a normalized endpoint name (see endpointKey) so it can be charted per
+ * endpoint.
+ *
+ * TelemetryAggregator keeps per-endpoint counters and recent latencies in
+ * memory and reports p50/p95 latency and error rates.
+ *
+ * @example
+ * const telemetry = new Telemetry();
+ * const metrics = new TelemetryAggregator(telemetry);
+ * const drive = googleApiClient('drive', { accessToken, telemetry });
+ * telemetry.subscribe((event) => {
+ *   if (event.type === 'backoff') console.debug(event);
+ * });
+ * console.table(metrics.snapshot());
+ */
+
+import type { ApiType, RequestPriority } from './constants';
+
+/**
+ * Fields shared by every telemetry event
+ */
+interface TelemetryEventBase {
+  api: ApiType;
+  /** Normalized endpoint (e.g. `/files/:id`) */
+  endpoint: string;
+  /** HTTP method */
+  method: string;
+  /** Identifies the logical request across its events */
+  requestId: number;
+  /** Time of the event, in milliseconds since the epoch */
+  at: number;
+}
+
+/**
+ * A request was started (once per logical request, not per attempt)
+ */
+export interface RequestStartEvent extends TelemetryEventBase {
+  type: 'request-start';
+}
+
+/**
+ * A request finished, successfully or not
+ */
+export interface RequestEndEvent extends TelemetryEventBase {
+  type: 'request-end';
+  /** HTTP status of the last attempt (0 if no response was received) */
+  status: number;
+  /** Whether the request succeeded (2xx or 304) */
+  ok: boolean;
+  /** Time from start to end, including waits, retries and backoff */
+  durationMs: number;
+  /** HTTP attempts made */
+  attempts: number;
+  /** Error class name, for failed requests */
+  error?: string;
+}
+
+/**
+ * An attempt failed and the request will be tried again
+ */
+export interface RetryEvent extends TelemetryEventBase {
+  type: 'retry';
+  /** Attempt that failed */
+  attempt: number;
+  /** HTTP status of the failed attempt */
+  status: number;
+}
+
+/**
+ * The rate limiter entered backoff after a failed attempt
+ */
+export interface BackoffEvent extends TelemetryEventBase {
+  type: 'backoff';
+  attempt: number;
+  /** Backoff duration, in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * An attempt had to wait for rate limiter tokens
+ */
+export interface RateLimitWaitEvent extends TelemetryEventBase {
+  type: 'rate-limit-wait';
+  /** Time spent waiting, in milliseconds */
+  waitedMs: number;
+  priority: RequestPriority;
+}
+
+/**
+ * A GET was answered from the response cache
+ */
+export interface CacheHitEvent extends TelemetryEventBase {
+  type: 'cache-hit';
+  /** Whether the entry was revalidated with a 304 rather than fresh */
+  revalidated: boolean;
+}
+
+/**
+ * A response failed its schema check in `warn` validation mode
+ */
+export interface SchemaMismatchEvent extends TelemetryEventBase {
+  type: 'schema-mismatch';
+  /** Path to the failing value (e.g. `$.files[2].name`) */
+  path: string;
+  /** Description of the expected value */
+  expected: string;
+  /** Description of the value actually received */
+  received: string;
+}
+
+export type TelemetryEvent =
+  | RequestStartEvent
+  | RequestEndEvent
+  | RetryEvent
+  | BackoffEvent
+  | RateLimitWaitEvent
+  | CacheHitEvent
+  | SchemaMismatchEvent;
+
+/**
+ * Listener for telemetry events
+ */
+export type TelemetryListener = (event: TelemetryEvent) => void;
+
+/**
+ * Telemetry event emitter shared by one or more clients
+ */
+export class Telemetry {
+  private readonly listeners = new Set<TelemetryListener>();
+  private lastRequestId = 0;
+
+  /**
+   * Listen for events
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: TelemetryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Allocate an ID for a new logical request
+   */
+  nextRequestId(): number {
+    this.lastRequestId += 1;
+    return this.lastRequestId;
+  }
+
+  /**
+   * Deliver an event to every listener
+   */
+  emit(event: TelemetryEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing listener must not break the request being observed
+        console.error('Telemetry listener failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Aggregated metrics for one API endpoint and method
+ */
+export interface EndpointMetrics {
+  api: ApiType;
+  endpoint: string;
+  method: string;
+  /** Finished requests */
+  requests: number;
+  /** Finished requests that failed */
+  errors: number;
+  /** errors / requests */
+  errorRate: number;
+  /** Median latency of recent requests, in milliseconds */
+  p50Ms: number;
+  /** 95th percentile latency of recent requests, in milliseconds */
+  p95Ms: number;
+  retries: number;
+  backoffs: number;
+  rateLimitWaits: number;
+  cacheHits: number;
+  schemaMismatches: number;
+}
+
+/**
+ * Options for the in-memory aggregator
+ */
+export interface TelemetryAggregatorOptions {
+  /** Latencies kept per endpoint for percentiles (default: 500) */
+  maxSamples?: number;
+}
+
+interface EndpointTotals {
+  api: ApiType;
+  endpoint: string;
+  method: string;
+  requests: number;
+  errors: number;
+  retries: number;
+  backoffs: number;
+  rateLimitWaits: number;
+  cacheHits: number;
+  schemaMismatches: number;
+  /** Most recent latencies, oldest first */
+  latencies: number[];
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)] ?? 0;
+}
+
+/**
+ * In-memory per-endpoint metrics built from telemetry events
+ */
+export class TelemetryAggregator {
+  private readonly totals = new Map<string, EndpointTotals>();
+  private readonly maxSamples: number;
+  private readonly unsubscribe: () => void;
+
+  constructor(telemetry: Telemetry, options: TelemetryAggregatorOptions = {}) {
+    this.maxSamples = options.maxSamples ?? 500;
+    this.unsubscribe = telemetry.subscribe((event) => {
+      this.record(event);
+    });
+  }
+
+  /**
+   * Metrics for every endpoint seen so far
+   */
+  snapshot(): EndpointMetrics[] {
+    return [...this.totals.values()].map(
+      ({ latencies, ...totals }): EndpointMetrics => {
+        const sorted = [...latencies].sort((a, b) => a - b);
+        return {
+          ...totals,
+          errorRate: totals.requests ? totals.errors / totals.requests : 0,
+          p50Ms: percentile(sorted, 50),
+          p95Ms: percentile(sorted, 95),
+        };
+      }
+    );
+  }
+
+  /**
+   * Forget everything recorded so far
+   */
+  reset(): void {
+    this.totals.clear();
+  }
+
+  /**
+   * Stop listening for events
+   */
+  dispose(): void {
+    this.unsubscribe();
+  }
+
+  private record(event: TelemetryEvent): void {
+    const totals = this.totalsFor(event);
+    switch (event.type) {
+      case 'request-start':
+        break;
+      case 'request-end':
+        totals.requests += 1;
+        if (!event.ok) totals.errors += 1;
+        totals.latencies.push(event.durationMs);
+        if (totals.latencies.length > this.maxSamples) {
+          totals.latencies.shift();
+        }
+        break;
+      case 'retry':
+        totals.retries += 1;
+        break;
+      case 'backoff':
+        totals.backoffs += 1;
+        break;
+      case 'rate-limit-wait':
+        totals.rateLimitWaits += 1;
+        break;
+      case 'cache-hit':
+        totals.cacheHits += 1;
+        break;
+      case 'schema-mismatch':
+        totals.schemaMismatches += 1;
+        break;
+    }
+  }
+
+  private totalsFor({ api, endpoint, method }: TelemetryEvent): EndpointTotals {
+    const key = `${api} ${method} ${endpoint}`;
+    let totals = this.totals.get(key);
+    if (!totals) {
+      totals = {
+        api,
+        endpoint,
+        method,
+        requests: 0,
+        errors: 0,
+        retries: 0,
+        backoffs: 0,
+        rateLimitWaits: 0,
+        cacheHits: 0,
+        schemaMismatches: 0,
+        latencies: [],
+      };
+      this.totals.set(key, totals);
+    }
+    return totals;
+  }
+}
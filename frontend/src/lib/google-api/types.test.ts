@@ -11,7 +11,14 @@ import {
   RateLimitError,
   PermissionDeniedError,
   NotFoundError,
+  InsufficientScopeError,
+  QuotaExceededError,
+  PreconditionFailedError,
+  ConflictError,
+  ValidationError,
   parseErrorResponse,
+  parseRetryAfter,
+  isRateLimitResponse,
   createApiError,
 } from './types';
 
@@ -226,3 +233,182 @@ describe('createApiError', () => {
     expect(error.retryAfterMs).toBe(60000);
   });
 });
+
+describe('parseRetryAfter', () => {
+  it('parses delay-seconds', () => {
+    expect(parseRetryAfter('30')).toBe(30_000);
+  });
+
+  it('parses HTTP-date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', now)).toBe(10_000);
+  });
+
+  it('clamps past dates to zero', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:00:00 GMT', now)).toBe(0);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('isRateLimitResponse', () => {
+  const quotaBody = (reason: string) =>
+    JSON.stringify({
+      error: {
+        code: 403,
+        message: 'Quota exceeded',
+        errors: [{ domain: 'usageLimits', reason, message: 'Quota' }],
+      },
+    });
+
+  it('treats 429 as a rate limit', () => {
+    expect(isRateLimitResponse(429, '')).toBe(true);
+  });
+
+  it.each(['rateLimitExceeded', 'userRateLimitExceeded'])(
+    'treats 403 with %s as a rate limit',
+    (reason) => {
+      expect(isRateLimitResponse(403, quotaBody(reason))).toBe(true);
+    }
+  );
+
+  it('does not treat other 403s as rate limits', () => {
+    expect(isRateLimitResponse(403, quotaBody('forbidden'))).toBe(false);
+    expect(isRateLimitResponse(403, 'not json')).toBe(false);
+  });
+});
+
+describe('createApiError rate limit classification', () => {
+  it('creates RateLimitError for usage-limit 403s', () => {
+    const body = JSON.stringify({
+      error: {
+        code: 403,
+        message: 'User rate limit exceeded',
+        errors: [
+          {
+            domain: 'usageLimits',
+            reason: 'userRateLimitExceeded',
+            message: 'User rate limit exceeded',
+          },
+        ],
+      },
+    });
+    const error = createApiError(403, body, 'drive', 5000) as RateLimitError;
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.status).toBe(403);
+    expect(error.retryAfterMs).toBe(5000);
+  });
+
+  it('prefers the Retry-After hint for 429s', () => {
+    const error = createApiError(
+      429,
+      '{"error":{"message":"Too many requests"}}',
+      'sheets',
+      2000
+    ) as RateLimitError;
+    expect(error.retryAfterMs).toBe(2000);
+  });
+});
+
+describe('createApiError reason classification', () => {
+  const errorBody = (
+    code: number,
+    reason: string,
+    status?: string,
+    domain = 'global'
+  ) =>
+    JSON.stringify({
+      error: {
+        code,
+        message: 'Request failed',
+        status,
+        errors: [{ domain, reason, message: 'Request failed' }],
+      },
+    });
+
+  it('creates InsufficientScopeError for missing scopes', () => {
+    const error = createApiError(
+      403,
+      errorBody(403, 'insufficientPermissions', 'PERMISSION_DENIED')
+    );
+    expect(error).toBeInstanceOf(InsufficientScopeError);
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error).toMatchObject({
+      reason: 'insufficientPermissions',
+      domain: 'global',
+      googleStatus: 'PERMISSION_DENIED',
+      messageKey: 'insufficientScope',
+    });
+  });
+
+  it('detects missing scopes from the message alone', () => {
+    const error = createApiError(
+      403,
+      JSON.stringify({
+        error: {
+          code: 403,
+          message: 'Request had insufficient authentication scopes.',
+          status: 'PERMISSION_DENIED',
+        },
+      })
+    );
+    expect(error).toBeInstanceOf(InsufficientScopeError);
+  });
+
+  it('creates QuotaExceededError with a storage message key', () => {
+    const daily = createApiError(
+      403,
+      errorBody(403, 'dailyLimitExceeded', undefined, 'usageLimits')
+    );
+    const storage = createApiError(403, errorBody(403, 'storageQuotaExceeded'));
+
+    expect(daily).toBeInstanceOf(QuotaExceededError);
+    expect(daily).toMatchObject({
+      domain: 'usageLimits',
+      messageKey: 'quotaExceeded',
+    });
+    expect(storage).toBeInstanceOf(QuotaExceededError);
+    expect(storage.messageKey).toBe('storageQuotaExceeded');
+  });
+
+  it('creates PreconditionFailedError from the reason or canonical status', () => {
+    expect(
+      createApiError(412, errorBody(412, 'conditionNotMet'))
+    ).toBeInstanceOf(PreconditionFailedError);
+    const error = createApiError(
+      400,
+      errorBody(400, 'failedPrecondition', 'FAILED_PRECONDITION')
+    );
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error.status).toBe(400);
+  });
+
+  it('creates ConflictError for duplicates', () => {
+    const error = createApiError(409, errorBody(409, 'duplicate'));
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error).toMatchObject({
+      reason: 'duplicate',
+      messageKey: 'conflict',
+    });
+  });
+
+  it('creates ValidationError for other 400s', () => {
+    const error = createApiError(
+      400,
+      errorBody(400, 'invalid', 'INVALID_ARGUMENT')
+    );
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.messageKey).toBe('invalidRequest');
+  });
+
+  it('keeps the status-based message key for other errors', () => {
+    expect(createApiError(503, 'unavailable').messageKey).toBe('serverError');
+    expect(createApiError(404, errorBody(404, 'notFound')).messageKey).toBe(
+      'notFound'
+    );
+  });
+});
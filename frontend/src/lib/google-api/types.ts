@@ -5,7 +5,26 @@
  * including error types, configuration, and shared response structures.
  */
 
-import type { ApiType, RateLimitConfig } from './constants';
+import {
+  CONFLICT_REASONS,
+  HTTP_STATUS,
+  INSUFFICIENT_SCOPE_REASONS,
+  PRECONDITION_FAILED_REASONS,
+  QUOTA_EXCEEDED_REASONS,
+  RATE_LIMIT_REASONS,
+  type ApiType,
+  type RateLimitConfig,
+  type RequestPriority,
+  type RetryPolicy,
+} from './constants';
+import type { CacheConfig } from './cache';
+import type { CircuitBreakerRegistry } from './circuit-breaker';
+import type { Clock } from './clock';
+import type { RateLimiterRegistry } from './limiter-registry';
+import type { Middleware } from './middleware';
+import type { MutationQueue } from './offline-queue';
+import type { SchemaIssue, ValidationMode } from './schema';
+import type { Telemetry } from './telemetry';
 
 /**
  * Configuration for creating an API client
@@ -17,8 +36,113 @@ export interface ClientConfig {
   onTokenExpired?: () => Promise<string>;
   /** Optional custom rate limit configuration */
   rateLimits?: Partial<RateLimitConfig>;
+  /** Optional overrides for the per-request retry policy */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Optional default timeout in milliseconds for each request */
+  timeoutMs?: number;
+  /** Optional middleware wrapping each HTTP call, outermost first */
+  middleware?: Middleware[];
+  /** Optional fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Optional time source and timers (defaults to the system clock) */
+  clock?: Clock;
+  /** Optional cache for read-only (GET) responses */
+  cache?: CacheConfig;
+  /** How to treat responses that don't match their schema (default: 'off') */
+  validation?: ValidationMode;
+  /**
+   * Stable identifier of the signed-in user (e.g. Firebase uid). When set,
+   * clients for the same user share rate limiters through the registry,
+   * including across tabs; otherwise each client has its own limiters.
+   */
+  userKey?: string;
+  /** Registry for shared limiters (defaults to defaultLimiterRegistry) */
+  limiterRegistry?: RateLimiterRegistry;
+  /**
+   * Circuit breakers for failing endpoints. Pass a shared registry to
+   * share circuit state and state-change events between clients; by
+   * default each client has its own.
+   */
+  circuits?: CircuitBreakerRegistry;
+  /**
+   * Share identical GET requests (same token and URL) that are in flight
+   * at the same time, across clients (default: true)
+   */
+  dedupe?: boolean;
+  /** Emitter for request telemetry events (none by default) */
+  telemetry?: Telemetry;
+  /**
+   * Durable queue for writes made while offline. Only methods that opt in
+   * queue their writes; the client also replays queued writes for its API
+   * and `userKey`. Set `userKey` when different users may share the queue.
+   */
+  offlineQueue?: MutationQueue;
 }
 
+/**
+ * How a write is queued when it cannot be sent
+ */
+export interface OfflineWriteOptions {
+  /** Key identifying the write; the same key is never queued twice */
+  idempotencyKey: string;
+  /** Replay statuses meaning the write was already applied */
+  appliedStatuses?: number[];
+}
+
+/**
+ * Per-call options accepted by every client method
+ */
+export interface RequestOptions {
+  /** Signal for cancelling the request */
+  signal?: AbortSignal;
+  /**
+   * Timeout in milliseconds, covering rate-limit waits, retries and
+   * backoff. Overrides the client's default timeout.
+   */
+  timeoutMs?: number;
+  /**
+   * How long a cached GET response stays fresh, in milliseconds. Overrides
+   * the method's default TTL; ignored unless the client has a cache.
+   */
+  cacheTtlMs?: number;
+  /**
+   * Rate limiter tokens charged for each attempt. Overrides the method's
+   * cost from OPERATION_COSTS.
+   */
+  cost?: number;
+  /** Position in the rate limiter queue (default: 'normal') */
+  priority?: RequestPriority;
+  /**
+   * Queue the write for replay if it can't be sent now. Ignored unless the
+   * client has an offline queue.
+   */
+  offline?: OfflineWriteOptions;
+}
+
+/**
+ * Identifies the user-facing message for an error, independent of the
+ * (English, developer-oriented) error message
+ */
+export type ErrorMessageKey =
+  | 'unknown'
+  | 'serverError'
+  | 'unavailable'
+  | 'tokenExpired'
+  | 'rateLimited'
+  | 'quotaExceeded'
+  | 'storageQuotaExceeded'
+  | 'permissionDenied'
+  | 'insufficientScope'
+  | 'notFound'
+  | 'conflict'
+  | 'preconditionFailed'
+  | 'invalidRequest'
+  | 'invalidResponse'
+  | 'unsupportedExport'
+  | 'aborted'
+  | 'timeout'
+  | 'queuedOffline';
+
 /**
  * Base error class for Google API errors
  */
@@ -29,6 +153,16 @@ export class GoogleApiError extends Error {
   readonly apiType?: ApiType;
   /** Original response body for debugging */
   readonly responseBody?: string;
+  /** Number of attempts made before giving up (set by the client) */
+  attempts?: number;
+  /** Key of the message to show users (e.g. for a translation lookup) */
+  readonly messageKey: ErrorMessageKey;
+  /** First `errors[].reason` in the response (e.g. `quotaExceeded`) */
+  reason?: string;
+  /** Domain of that reason (e.g. `usageLimits`) */
+  domain?: string;
+  /** Google's canonical error status (e.g. `FAILED_PRECONDITION`) */
+  googleStatus?: string;
 
   constructor(
     status: number,
@@ -41,6 +175,7 @@ export class GoogleApiError extends Error {
     this.status = status;
     this.apiType = apiType;
     this.responseBody = responseBody;
+    this.messageKey = status >= 500 ? 'serverError' : 'unknown';
     // Maintains proper stack trace for where error was thrown (V8 engines)
     if ('captureStackTrace' in Error) {
       (
@@ -57,6 +192,8 @@ export class GoogleApiError extends Error {
  * Error thrown when OAuth token has expired
  */
 export class TokenExpiredError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'tokenExpired';
+
   constructor(message = 'Access token has expired') {
     super(401, message);
     this.name = 'TokenExpiredError';
@@ -67,11 +204,16 @@ export class TokenExpiredError extends GoogleApiError {
  * Error thrown when rate limit is exceeded
  */
 export class RateLimitError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'rateLimited';
   /** Suggested retry delay in milliseconds */
   readonly retryAfterMs?: number;
 
-  constructor(retryAfterMs?: number, message = 'Rate limit exceeded') {
-    super(429, message);
+  constructor(
+    retryAfterMs?: number,
+    message = 'Rate limit exceeded',
+    status = 429
+  ) {
+    super(status, message);
     this.name = 'RateLimitError';
     this.retryAfterMs = retryAfterMs;
   }
@@ -81,16 +223,33 @@ export class RateLimitError extends GoogleApiError {
  * Error thrown when user lacks permission
  */
 export class PermissionDeniedError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'permissionDenied';
+
   constructor(message = 'Permission denied') {
     super(403, message);
     this.name = 'PermissionDeniedError';
   }
 }
 
+/**
+ * Error thrown when the access token lacks an OAuth scope the request
+ * needs; the user has to grant more scopes rather than retry
+ */
+export class InsufficientScopeError extends PermissionDeniedError {
+  readonly messageKey: ErrorMessageKey = 'insufficientScope';
+
+  constructor(message = 'Request had insufficient authentication scopes') {
+    super(message);
+    this.name = 'InsufficientScopeError';
+  }
+}
+
 /**
  * Error thrown when resource is not found
  */
 export class NotFoundError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'notFound';
+
   constructor(resource: string, id?: string) {
     const message = id
       ? `${resource} not found: ${id}`
@@ -100,6 +259,226 @@ export class NotFoundError extends GoogleApiError {
   }
 }
 
+/**
+ * Error thrown when a daily or storage quota is used up
+ *
+ * Unlike RateLimitError this isn't resolved by backing off briefly.
+ */
+export class QuotaExceededError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'quotaExceeded';
+
+  constructor(message = 'Quota exceeded', status = 403, reason?: string) {
+    super(status, message);
+    this.name = 'QuotaExceededError';
+    this.reason = reason;
+    if (reason === 'storageQuotaExceeded') {
+      this.messageKey = 'storageQuotaExceeded';
+    }
+  }
+}
+
+/**
+ * Error thrown when a condition of the request no longer holds (e.g. an
+ * If-Match ETag or a required resource state)
+ */
+export class PreconditionFailedError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'preconditionFailed';
+
+  constructor(message = 'Precondition failed', status = 412) {
+    super(status, message);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * Error thrown when the request conflicts with existing data (e.g. a
+ * resource with the same ID already exists)
+ */
+export class ConflictError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'conflict';
+
+  constructor(message = 'Conflict', status = 409) {
+    super(status, message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Error thrown when Google rejects the request as malformed or invalid
+ */
+export class ValidationError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'invalidRequest';
+
+  constructor(message = 'Invalid request', status = 400) {
+    super(status, message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Error thrown without sending a request when a file can't be exported to
+ * the requested format
+ *
+ * Uses status 0 since no request was sent.
+ */
+export class UnsupportedExportError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'unsupportedExport';
+  /** MIME type of the file */
+  readonly sourceMimeType: string;
+  /** Format that was requested */
+  readonly targetMimeType: string;
+  /** Formats the file can be exported to (empty if none) */
+  readonly supportedMimeTypes: readonly string[];
+
+  constructor(
+    sourceMimeType: string,
+    targetMimeType: string,
+    supportedMimeTypes: readonly string[]
+  ) {
+    super(
+      0,
+      supportedMimeTypes.length > 0
+        ? `Cannot export ${sourceMimeType} as ${targetMimeType}; supported formats: ${supportedMimeTypes.join(', ')}`
+        : `Cannot export ${sourceMimeType}; only Google Workspace files can be exported`,
+      'drive'
+    );
+    this.name = 'UnsupportedExportError';
+    this.sourceMimeType = sourceMimeType;
+    this.targetMimeType = targetMimeType;
+    this.supportedMimeTypes = supportedMimeTypes;
+  }
+}
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ *
+ * Uses status 0 since no HTTP response was received.
+ */
+export class RequestAbortedError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'aborted';
+
+  constructor(message = 'Request was aborted') {
+    super(0, message);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Error thrown without sending a request while an endpoint's circuit is
+ * open after repeated server errors
+ *
+ * Uses status 0 since no request was sent.
+ */
+export class CircuitOpenError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'unavailable';
+  /** Normalized endpoint whose circuit is open */
+  readonly endpoint: string;
+  /** Milliseconds until the circuit allows a trial request */
+  readonly retryAfterMs: number;
+
+  constructor(
+    apiType: ApiType,
+    endpoint: string,
+    retryAfterMs: number,
+    message?: string
+  ) {
+    super(
+      0,
+      message ?? `The ${apiType} API is unavailable (${endpoint})`,
+      apiType
+    );
+    this.name = 'CircuitOpenError';
+    this.endpoint = endpoint;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Error thrown when a write was queued for replay instead of being sent
+ *
+ * Uses status 0 since no HTTP response was received. The write is applied
+ * later, once the client's offline queue replays it.
+ */
+export class MutationQueuedError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'queuedOffline';
+  /** Idempotency key of the queued write */
+  readonly mutationId: string;
+
+  constructor(mutationId: string, apiType?: ApiType, message?: string) {
+    super(0, message ?? 'Offline: the change will be sent later', apiType);
+    this.name = 'MutationQueuedError';
+    this.mutationId = mutationId;
+  }
+}
+
+/**
+ * Error thrown when too many requests are already waiting on the rate
+ * limiter
+ *
+ * Uses status 0 since no request was sent.
+ */
+export class QueueFullError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'rateLimited';
+  /** Queue length that was reached */
+  readonly maxQueueLength: number;
+
+  constructor(maxQueueLength: number, message?: string) {
+    super(
+      0,
+      message ??
+        `Rate limiter queue is full (${String(maxQueueLength)} waiting)`
+    );
+    this.name = 'QueueFullError';
+    this.maxQueueLength = maxQueueLength;
+  }
+}
+
+/**
+ * Error thrown when a request exceeds its timeout
+ *
+ * Uses status 0 since no HTTP response was received.
+ */
+export class RequestTimeoutError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'timeout';
+  /** Timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, message?: string) {
+    super(0, message ?? `Request timed out after ${String(timeoutMs)}ms`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown when a response doesn't match its schema in strict
+ * validation mode
+ *
+ * Uses status 0 since the HTTP request itself succeeded.
+ */
+export class ResponseValidationError extends GoogleApiError {
+  readonly messageKey: ErrorMessageKey = 'invalidResponse';
+  /** Path to the failing value (e.g. `$.files[2].name`) */
+  readonly path: string;
+  /** Description of the expected value */
+  readonly expected: string;
+  /** Description of the value actually received */
+  readonly received: string;
+
+  constructor(issue: SchemaIssue, apiType?: ApiType, responseBody?: string) {
+    super(
+      0,
+      `Invalid response at ${issue.path}: expected ${issue.expected}, received ${issue.received}`,
+      apiType,
+      responseBody
+    );
+    this.name = 'ResponseValidationError';
+    this.path = issue.path;
+    this.expected = issue.expected;
+    this.received = issue.received;
+  }
+}
+
 /**
  * Google API error response structure
  */
@@ -161,17 +540,122 @@ export function parseErrorResponse(
 }
 
 /**
- * Create appropriate error based on status code
+ * Check whether an error response reports an exhausted usage limit
+ *
+ * Covers 429 responses and 403 responses whose `errors[].reason` is a
+ * rate-limit reason such as `rateLimitExceeded`.
+ */
+export function isRateLimitResponse(status: number, body: string): boolean {
+  if (status === HTTP_STATUS.RATE_LIMITED) {
+    return true;
+  }
+  if (status !== HTTP_STATUS.FORBIDDEN) {
+    return false;
+  }
+
+  const errors = parseErrorResponse(body)?.error.errors ?? [];
+  return errors.some(({ reason }) => RATE_LIMIT_REASONS.includes(reason));
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ *
+ * Accepts both delay-seconds and HTTP-date forms.
+ *
+ * @param header - Raw header value
+ * @param now - Current time in milliseconds (for HTTP-date values)
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Create the error class matching an error response
+ *
+ * Classifies on Google's `errors[].reason` and canonical `status` first,
+ * then on the HTTP status. The reason, its domain and the canonical status
+ * are copied onto the error.
+ *
+ * @param status - HTTP status code
+ * @param body - Raw response body
+ * @param apiType - API that returned the error
+ * @param retryAfterMs - Retry-After hint from the response headers
  */
 export function createApiError(
   status: number,
   body: string,
-  apiType?: ApiType
+  apiType?: ApiType,
+  retryAfterMs?: number
 ): GoogleApiError {
   const parsed = parseErrorResponse(body);
+  const error = classifyError(status, body, parsed, apiType, retryAfterMs);
+  const detail = parsed?.error.errors?.[0];
+  error.reason ??= detail?.reason;
+  error.domain = detail?.domain;
+  error.googleStatus = parsed?.error.status;
+  return error;
+}
+
+function classifyError(
+  status: number,
+  body: string,
+  parsed: GoogleApiErrorResponse | null,
+  apiType?: ApiType,
+  retryAfterMs?: number
+): GoogleApiError {
   const message = parsed?.error.message ?? `API error: ${String(status)}`;
+  const reasons = parsed?.error.errors?.map(({ reason }) => reason) ?? [];
+  const googleStatus = parsed?.error.status;
+  const hasReason = (candidates: readonly string[]) =>
+    reasons.some((reason) => candidates.includes(reason));
+
+  if (status === 403 && isRateLimitResponse(status, body)) {
+    return new RateLimitError(retryAfterMs, message, status);
+  }
+  if (
+    hasReason(INSUFFICIENT_SCOPE_REASONS) ||
+    message.includes('insufficient authentication scopes')
+  ) {
+    return new InsufficientScopeError(message);
+  }
+  const quotaReason = reasons.find((reason) =>
+    QUOTA_EXCEEDED_REASONS.includes(reason)
+  );
+  if (quotaReason) {
+    return new QuotaExceededError(message, status, quotaReason);
+  }
+  if (
+    status === HTTP_STATUS.PRECONDITION_FAILED ||
+    googleStatus === 'FAILED_PRECONDITION' ||
+    hasReason(PRECONDITION_FAILED_REASONS)
+  ) {
+    return new PreconditionFailedError(message, status);
+  }
+  if (
+    status === HTTP_STATUS.CONFLICT ||
+    googleStatus === 'ALREADY_EXISTS' ||
+    hasReason(CONFLICT_REASONS)
+  ) {
+    return new ConflictError(message, status);
+  }
 
   switch (status) {
+    case 400:
+      return new ValidationError(message);
     case 401:
       return new TokenExpiredError(message);
     case 403:
@@ -179,12 +663,12 @@ export function createApiError(
     case 404:
       return new NotFoundError('Resource', undefined);
     case 429: {
-      // Try to parse retry-after from response
+      // Fall back to the retry hint in the error message
       const errorMessage = parsed?.error.errors?.[0]?.message;
       const retryMatch = errorMessage?.match(/(\d+)/);
       const retryMs = retryMatch?.[1];
       return new RateLimitError(
-        retryMs ? parseInt(retryMs, 10) * 1000 : undefined,
+        retryAfterMs ?? (retryMs ? parseInt(retryMs, 10) * 1000 : undefined),
         message
       );
     }